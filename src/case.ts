@@ -0,0 +1,30 @@
+// snake_case to camelCase; leading underscores are kept
+export function camelCase(s: string) {
+  return s.replace(/(?<=[^_])_+([a-zA-Z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+// camelCase to snake_case, e.g. `userID` to `user_id`
+export function snakeCase(s: string) {
+  return s
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Mapping between object keys and column names
+ */
+export type KeyTransform = {
+  // object key to column name
+  toColumn: (key: string) => string;
+  // column name to object key; applied to returned rows
+  fromColumn: (column: string) => string;
+};
+
+export type KeyTransformOption = 'snake_case' | KeyTransform;
+
+const snakeCaseKeys: KeyTransform = { toColumn: snakeCase, fromColumn: camelCase };
+
+export function resolveKeyTransform(opt?: KeyTransformOption): KeyTransform | undefined {
+  return opt === 'snake_case' ? snakeCaseKeys : opt;
+}
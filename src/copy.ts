@@ -0,0 +1,83 @@
+import { pgPrepare } from './dialect.ts';
+import { isQueryFragment } from './query-weaver.ts';
+
+export type CopyFormat = 'text' | 'csv';
+
+// flushes the encoded rows in chunks of about this size
+const CHUNK_SIZE = 65536;
+
+// the value in node-postgres' way; bytes are in the hex format of bytea
+function copyValue(v: unknown) {
+  if (isQueryFragment(v)) {
+    throw new Error('COPY does not support QueryFragment values.');
+  }
+
+  const prepared = pgPrepare(v);
+  if (prepared instanceof Uint8Array) {
+    return '\\x' + Array.from(prepared, (b) => b.toString(16).padStart(2, '0')).join('');
+  }
+  return prepared;
+}
+
+const textEscapes: Record<string, string> = {
+  '\\': '\\\\',
+  '\b': '\\b',
+  '\f': '\\f',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\v': '\\v',
+};
+
+/**
+ * Encode a value for `COPY ... FROM STDIN`
+ *
+ * Example:
+ *   encodeCopyValue('a\tb', 'text')  => a\\tb
+ *   encodeCopyValue(null, 'text')  => \N
+ *   encodeCopyValue('', 'csv')  => ""
+ */
+export function encodeCopyValue(v: unknown, format: CopyFormat = 'text') {
+  const s = copyValue(v);
+
+  if (format === 'csv') {
+    if (s === null) return '';
+    // an empty string has to be quoted to be distinguished from NULL
+    return s === '' || s === '\\.' || /[",\r\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+  }
+
+  if (s === null) return '\\N';
+  return s.replace(/[\\\b\f\n\r\t\v]/g, (c) => textEscapes[c]!);
+}
+
+/**
+ * Encode a row for `COPY ... FROM STDIN`, with the line terminator
+ */
+export function encodeCopyRow(values: unknown[], format: CopyFormat = 'text') {
+  return values.map((v) => encodeCopyValue(v, format)).join(format === 'csv' ? ',' : '\t') + '\n';
+}
+
+/**
+ * Encode rows into chunks of the COPY data
+ *
+ * Example:
+ *   for await (const chunk of encodeCopyRows(rows, ['id', 'name'])) stream.write(chunk);
+ */
+export async function* encodeCopyRows<T extends Record<string, unknown>>(
+  rows: AsyncIterable<T> | Iterable<T>,
+  keys: readonly string[],
+  format: CopyFormat = 'text',
+) {
+  let buffer = '';
+  for await (const row of rows) {
+    buffer += encodeCopyRow(
+      keys.map((k) => row[k]),
+      format,
+    );
+    if (buffer.length >= CHUNK_SIZE) {
+      yield buffer;
+      buffer = '';
+    }
+  }
+  if (buffer) yield buffer;
+}
@@ -0,0 +1,308 @@
+import { StringReader } from '@kikuchan/string-reader';
+import { quoteBackslashLiteral, quoteIdent, quoteLiteral, quoteStandardLiteral } from './quote.ts';
+
+export type Context = {
+  inLineComment?: boolean;
+  inBlockComment?: number;
+  inSingleQuote?: boolean;
+  inEscapedSingleQuote?: boolean;
+  dollarQuoted?: string;
+  quotedIdent?: string;
+};
+
+export type ContextHandler = (ctx: Context, src: string) => void;
+
+export type Dialect = {
+  name: string;
+
+  // placeholder for the idx-th (1-origin) bound value
+  placeholder: (idx: number) => string;
+  // placeholder for a named value; `:name` by default
+  namedPlaceholder?: (name: string) => string;
+  ident: (s: string, ctx?: Context) => string;
+  literal: (v: unknown, ctx?: Context) => string;
+  // cast of a typed value; `CAST(expr AS type)` by default
+  cast?: (expr: string, type: string) => string;
+  contextHandler: ContextHandler;
+  // the maximum number of bound values in a statement
+  maxParameters?: number;
+};
+
+export function pgIdent(s: string, _ctx?: Context) {
+  // '.' is a special for us
+  return s
+    .split('.')
+    .map((x) => quoteIdent(x))
+    .join('.');
+}
+
+function pgDate(d: Date) {
+  const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+
+  let year = d.getFullYear();
+  const bc = year < 1;
+  if (bc) year = Math.abs(year) + 1;
+
+  let offset = -d.getTimezoneOffset();
+  const sign = offset < 0 ? '-' : '+';
+  offset = Math.abs(offset);
+
+  return (
+    `${pad(year, 4)}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}` +
+    `T${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}` +
+    `${sign}${pad(Math.floor(offset / 60))}:${pad(offset % 60)}` +
+    (bc ? ' BC' : '')
+  );
+}
+
+function pgArray(a: unknown[]): string {
+  const items = a.map((e) => {
+    if (e === null || e === undefined) return 'NULL';
+    if (Array.isArray(e)) return pgArray(e);
+    if (ArrayBuffer.isView(e)) return '\\\\x' + toHex(new Uint8Array(e.buffer, e.byteOffset, e.byteLength));
+    return '"' + String(pgPrepare(e)).replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+  });
+  return '{' + items.join(',') + '}';
+}
+
+/**
+ * Serialize a value in the same way as node-postgres' `prepareValue` does,
+ * so that `embed` reproduces what is actually bound
+ */
+export function pgPrepare(v: unknown, seen: unknown[] = []): string | Uint8Array | null {
+  if (v === null || v === undefined) return null;
+  if (typeof v === 'object') {
+    if (ArrayBuffer.isView(v)) return new Uint8Array(v.buffer, v.byteOffset, v.byteLength);
+    if (v instanceof Date) return pgDate(v);
+    if (Array.isArray(v)) return pgArray(v);
+    if ('toPostgres' in v && typeof v.toPostgres === 'function') {
+      if (seen.includes(v)) throw new Error('Circular reference detected in toPostgres.');
+      return pgPrepare(
+        v.toPostgres((x: unknown) => pgPrepare(x)),
+        [...seen, v],
+      );
+    }
+    return JSON.stringify(v);
+  }
+  return String(v);
+}
+
+// fallback function for when the EscapeFunction is not specified
+export function pgString(s: unknown, _ctx?: Context): string {
+  if (typeof s === 'boolean') return s ? 'true' : 'false';
+
+  const v = pgPrepare(s);
+  if (v === null) return 'NULL';
+  if (v instanceof Uint8Array) return `'\\x${toHex(v)}'::bytea`;
+  return quoteLiteral(v);
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+type LiteralRules = {
+  quote: (s: string) => string;
+  booleans: [truthy: string, falsy: string];
+  array: (items: string[]) => string;
+  bytes: (hex: string) => string;
+};
+
+function makeLiteral(rules: LiteralRules) {
+  const literal = (s: unknown, _ctx?: Context): string => {
+    if (s === null) return 'NULL';
+    if (typeof s === 'boolean') return rules.booleans[s ? 0 : 1];
+    if (Array.isArray(s)) return rules.array(s.map((e) => literal(e)));
+    if (s instanceof Uint8Array) return rules.bytes(toHex(s));
+    if (typeof s === 'object') {
+      if ('toJSON' in s && typeof s.toJSON === 'function') {
+        return rules.quote(String(s.toJSON()));
+      }
+      return rules.quote(s.toString());
+    }
+    return rules.quote(String(s));
+  };
+  return literal;
+}
+
+function makeIdent(open: string, close: string = open) {
+  return (s: string, _ctx?: Context) =>
+    s
+      .split('.')
+      .map((x) => quoteIdent(x, open, close))
+      .join('.');
+}
+
+export type LexicalRules = {
+  // line comment opener, e.g. `--` or `#`
+  lineComment: string | RegExp;
+  // whether block comments can be nested
+  nestedBlockComments?: boolean;
+  // whether a backslash escapes the next character in '...'
+  backslashEscapes?: boolean;
+  // E'...' strings
+  escapeStrings?: boolean;
+  // $tag$...$tag$ strings
+  dollarQuotes?: boolean;
+  // quoted identifiers; opener to closer
+  quotedIdents?: Record<string, string>;
+};
+
+/**
+ * Build a lexical context scanner, which keeps track of quotes and comments
+ * so that values inside them can be ignored
+ */
+export function makeContextHandler(rules: LexicalRules): ContextHandler {
+  const quotedIdents = rules.quotedIdents ?? {};
+
+  return (ctx: Context, src: string) => {
+    const r = new StringReader(src);
+
+    while (!r.eof()) {
+      if (ctx.dollarQuoted) {
+        if (!r.skipUntil(ctx.dollarQuoted)) break;
+        r.skip(ctx.dollarQuoted.length);
+        ctx.dollarQuoted = undefined;
+      } else if (ctx.quotedIdent) {
+        if (!r.skipUntil(ctx.quotedIdent)) break;
+        r.skip(ctx.quotedIdent.length);
+        ctx.quotedIdent = undefined;
+      } else if (ctx.inEscapedSingleQuote) {
+        if (!r.skipUntil(/[\\']/)) break;
+        if (r.match("''")) continue; // ignore double single-quote
+        if (r.match(/\\./)) continue; // skip the escaped string
+
+        // must be the ending of the single-quote
+        if (!r.match("'")) break;
+        ctx.inEscapedSingleQuote = false;
+      } else if (ctx.inSingleQuote) {
+        if (!r.skipUntil("'")) break;
+        if (r.match("''")) continue; // ignore double single-quote
+
+        // must be the ending of the single-quote
+        if (!r.match("'")) break;
+        ctx.inSingleQuote = false;
+      } else if (ctx.inBlockComment) {
+        if (!r.skipUntil(rules.nestedBlockComments ? /\/\*|\*\// : '*/')) break;
+        if (rules.nestedBlockComments && r.match('/*', () => ++ctx!.inBlockComment!)) continue;
+
+        // must be the ending of the block comment
+        if (!r.match('*/')) break;
+        ctx.inBlockComment--;
+      } else if (ctx.inLineComment) {
+        if (!r.skipUntil(/\r\n|\r|\n/)) break;
+        r.match(/\r\n|\r|\n/);
+        ctx.inLineComment = false;
+      } else {
+        if (!r.skipUntil(/[-$E'/#"`[]/)) break;
+
+        if (rules.dollarQuotes && r.match(/\$[a-zA-Z0-9_]*\$/, (m) => (ctx.dollarQuoted = m[0]))) continue;
+        if (rules.escapeStrings && r.match("E'", () => (ctx.inEscapedSingleQuote = true))) continue;
+        if (rules.backslashEscapes && r.match("'", () => (ctx.inEscapedSingleQuote = true))) continue;
+        if (r.match("'", () => (ctx.inSingleQuote = true))) continue;
+        if (r.match(rules.lineComment, () => (ctx.inLineComment = true))) continue;
+        if (r.match('/*', () => (ctx.inBlockComment = 1))) continue;
+
+        const opener = r.startsWith(/["`[]/)?.[0];
+        if (opener && quotedIdents[opener]) {
+          ctx.quotedIdent = quotedIdents[opener];
+          r.skip();
+          continue;
+        }
+
+        // not a known token
+        r.skip();
+      }
+    }
+  };
+}
+
+export const pgContextHandler = makeContextHandler({
+  lineComment: '--',
+  nestedBlockComments: true,
+  escapeStrings: true,
+  dollarQuotes: true,
+});
+
+/**
+ * PostgreSQL; `$1` placeholders, "ident" and '...' literals
+ */
+export const pgDialect: Dialect = {
+  name: 'postgres',
+  placeholder: (idx) => '$' + idx,
+  ident: pgIdent,
+  literal: pgString,
+  cast: (expr, type) => `${expr}::${type}`,
+  contextHandler: pgContextHandler,
+  maxParameters: 65535,
+};
+
+/**
+ * MySQL / MariaDB; `?` placeholders, `ident` and backslash-escaped '...' literals
+ */
+export const mysqlDialect: Dialect = {
+  name: 'mysql',
+  placeholder: () => '?',
+  ident: makeIdent('`'),
+  literal: makeLiteral({
+    quote: quoteBackslashLiteral,
+    booleans: ['TRUE', 'FALSE'],
+    array: (items) => items.join(', '),
+    bytes: (hex) => `X'${hex}'`,
+  }),
+  contextHandler: makeContextHandler({
+    lineComment: /--(?=\s)|#/,
+    backslashEscapes: true,
+    quotedIdents: { '`': '`', '"': '"' },
+  }),
+  maxParameters: 65535,
+};
+
+/**
+ * SQLite; `?` placeholders, "ident" and '...' literals
+ */
+export const sqliteDialect: Dialect = {
+  name: 'sqlite',
+  placeholder: () => '?',
+  ident: makeIdent('"'),
+  literal: makeLiteral({
+    quote: quoteStandardLiteral,
+    booleans: ['1', '0'],
+    array: (items) => items.join(', '),
+    bytes: (hex) => `X'${hex}'`,
+  }),
+  contextHandler: makeContextHandler({
+    lineComment: '--',
+    quotedIdents: { '"': '"', '`': '`', '[': ']' },
+  }),
+  maxParameters: 32766,
+};
+
+/**
+ * Microsoft SQL Server; `@p1` placeholders, [ident] and N'...' literals
+ */
+export const mssqlDialect: Dialect = {
+  name: 'mssql',
+  placeholder: (idx) => '@p' + idx,
+  namedPlaceholder: (name) => '@' + name,
+  ident: makeIdent('[', ']'),
+  literal: makeLiteral({
+    quote: (s) => 'N' + quoteStandardLiteral(s),
+    booleans: ['1', '0'],
+    array: (items) => items.join(', '),
+    bytes: (hex) => `0x${hex}`,
+  }),
+  contextHandler: makeContextHandler({
+    lineComment: '--',
+    nestedBlockComments: true,
+    quotedIdents: { '"': '"', '[': ']' },
+  }),
+  maxParameters: 2100,
+};
+
+export const dialects = {
+  postgres: pgDialect,
+  mysql: mysqlDialect,
+  sqlite: sqliteDialect,
+  mssql: mssqlDialect,
+};
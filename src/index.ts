@@ -1,2 +1,6 @@
+export * from './case.ts';
+export * from './copy.ts';
+export * from './dialect.ts';
 export * from './query-helper.ts';
 export * from './query-weaver.ts';
+export * from './table.ts';
@@ -1,15 +1,38 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import type pg from 'pg';
-import type { FieldValues, QueryFragment, QueryTemplateStyle, WhereArg } from './query-weaver.ts';
+import type { KeyTransformOption } from './case.ts';
+import { camelCase, resolveKeyTransform } from './case.ts';
+import type { CopyFormat } from './copy.ts';
+import { encodeCopyRows } from './copy.ts';
+import type { Dialect } from './dialect.ts';
+import { pgDialect, sqliteDialect } from './dialect.ts';
+import type {
+  BuildOptions,
+  FieldValues,
+  OrderByOptions,
+  OrderBySpec,
+  QueryFragment,
+  QueryTemplateStyle,
+  UpsertOptions,
+  WhereArg,
+} from './query-weaver.ts';
+import type { ColumnOf, FieldValuesOf, RowOf, Table, WhereArgOf } from './table.ts';
+import { assertColumns, tableName } from './table.ts';
 import {
   DELETE_ALL_WITHOUT_FORCE_ERROR,
+  LIMIT,
   UPDATE_ALL_WITHOUT_FORCE_ERROR,
+  WHERE,
+  buildKeyset,
   buildDelete,
   buildInsert,
   buildUpdate,
   buildUpsert,
   ident,
+  isQueryFragment,
   isQueryTemplateStyle,
   isWhereEmpty,
+  raw,
   sql,
 } from './query-weaver.ts';
 
@@ -57,24 +80,201 @@ export type QueryHelperOptions<X extends object, Y extends object> = {
 
   connect?: (obj: X) => Promise<Y>;
   release?: (conn: Y) => Promise<void> | void;
+
+  // compiles queries for the dialect; the fragment is passed as is when it's omitted
+  dialect?: Dialect;
+  // reuses placeholders for the identical values; see `CompileOptions`
+  dedupe?: boolean;
+  // converts column names of the returned rows, e.g. `created_at` to `createdAt` by 'camelCase'
+  columnName?: 'camelCase' | ((column: string) => string);
+  // maps object keys to column names for the builders, and column names back on returned rows
+  keyTransform?: KeyTransformOption;
+  // sends the data of `copyFrom`; e.g. `QueryHelper.pgCopyStreams(copyFrom)` for pg-copy-streams
+  copyStream?: CopyStreamAdapter;
+  // routes queries in a `begin` callback to its connection, even if they are made on the outer helper
+  ambientTransaction?: boolean;
+  // reports the errors of `onCommit` / `onRollback` callbacks; they are emitted as process warnings by default
+  onHookError?: (e: unknown, hook: 'commit' | 'rollback') => void;
+};
+
+// sends the COPY data on the connection (`this`), and resolves to the number of the copied rows if it's known
+export type CopyStreamAdapter = (
+  this: object,
+  query: QueryConfig,
+  chunks: AsyncIterable<string>,
+) => Promise<number | undefined>;
+
+// a writable stream of pg-copy-streams
+type CopyStream = {
+  write(chunk: string): boolean;
+  end(): void;
+  destroy(error?: Error): void;
+  once(event: string, listener: (...args: unknown[]) => void): unknown;
+  rowCount?: number;
 };
 
+// a subset of the Standard Schema (https://standardschema.dev) interface
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaV1Result<Output> | Promise<StandardSchemaV1Result<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+};
+
+type StandardSchemaV1Result<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+      }>;
+    };
+
+/**
+ * Row mapper/validator; a function or a Standard Schema compatible validator (zod, valibot, arktype, ...)
+ */
+export type RowMapper<T> = StandardSchemaV1<unknown, T> | ((row: QueryResultRow) => T | Promise<T>);
+
+/**
+ * Value mapper/validator for `getOne`; it's applied to the value of the first column
+ */
+export type ValueMapper<T> = StandardSchemaV1<unknown, T> | ((value: unknown) => T | Promise<T>);
+
+type Mapper = RowMapper<unknown> | ValueMapper<unknown>;
+
+function isMapper(x: unknown): x is Mapper {
+  return typeof x === 'function' || (typeof x === 'object' && x !== null && '~standard' in x);
+}
+
+async function mapRow<T>(mapper: RowMapper<T> | ValueMapper<T>, row: unknown): Promise<T> {
+  if ('~standard' in mapper) {
+    const result = await mapper['~standard'].validate(row);
+    if (result.issues) {
+      const issues = result.issues.map((issue) => {
+        const path = issue.path?.map((k) => String(typeof k === 'object' ? k.key : k)).join('.');
+        return path ? `${path}: ${issue.message}` : issue.message;
+      });
+      throw new Error(`Invalid row: ${issues.join('; ')}`, { cause: result.issues });
+    }
+    return result.value;
+  }
+  return (mapper as (row: unknown) => T | Promise<T>)(row);
+}
+
 type QueryTemplateOrSimpleQuery =
   | QueryTemplateStyle
   | [query: string, values?: unknown[]]
   | [query: pg.QueryConfig<unknown[]>];
 
+type QueryWithMapper<M> =
+  | [query: QueryFragment | pg.QueryConfig<unknown[]>, mapper: M]
+  | [query: string, values: unknown[] | undefined, mapper: M];
+type QueryWithRowMapper<T> = QueryWithMapper<RowMapper<T>>;
+type QueryWithValueMapper<T> = QueryWithMapper<ValueMapper<T>>;
+
+type QueryArgs = QueryTemplateOrSimpleQuery | QueryWithMapper<Mapper>;
+
 function pick<T extends { [X in string]: T[X] }, K extends string>(target: T, keys: K[]): { [X in K]: T[X] } {
   return Object.fromEntries(keys.map((k) => [k, target[k]])) as {
     [X in K]: T[X];
   };
 }
 
+// columns of the RETURNING clause
+export type Returning<T> = readonly (keyof T & string)[] | '*';
+export type ReturningOption<R> = { returning?: R };
+export type InsertOption<R> = ReturningOption<R> & {
+  // rows per statement; computed from the parameter limit of the dialect by default
+  chunkSize?: number;
+  // binds an array per column with UNNEST; the column types, or true to take them from the table
+  unnest?: boolean | Record<string, string>;
+};
+
+type ReturnedRow<T, R> = R extends readonly (infer K extends keyof T)[] ? Pick<T, K> : T;
+type Appendix<R, O = ReturningOption<R>> = string | QueryFragment | O;
+
+export type QueryHelperPaginateOption = OrderByOptions & {
+  limit: number;
+  cursor?: string | null;
+};
+
+export type Page<T> = {
+  rows: T[];
+  nextCursor: string | null;
+  prevCursor: string | null;
+};
+
+export type QueryHelperCopyFromOption = {
+  // 'text' by default
+  format?: CopyFormat;
+};
+
+export type IsolationLevel = 'READ UNCOMMITTED' | 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE';
+
+const isolationLevels: readonly string[] = ['READ UNCOMMITTED', 'READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE'];
+
+export type QueryHelperRetryOption = {
+  // the number of retries; 3 by default
+  retries?: number;
+  // milliseconds to wait before the n-th (1-origin) retry; exponential with jitter by default
+  backoff?: number | ((attempt: number) => number);
+};
+
 export type QueryHelperBeginOption = {
   transaction?: boolean;
   role?: string;
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+  deferrable?: boolean;
+  // re-runs the callback on serialization failures (40001) and deadlocks (40P01)
+  retry?: boolean | number | QueryHelperRetryOption;
+  // configuration parameters for the transaction, e.g. `{ 'app.tenant_id': id, statement_timeout: '5s' }`
+  settings?: Record<string, string | number>;
 };
 
+function beginStatement(opts: QueryHelperBeginOption) {
+  if (opts.isolationLevel !== undefined && !isolationLevels.includes(opts.isolationLevel)) {
+    throw new Error(`Invalid isolation level: '${opts.isolationLevel}'.`);
+  }
+
+  const modes = [
+    opts.isolationLevel && `ISOLATION LEVEL ${opts.isolationLevel}`,
+    opts.readOnly !== undefined && (opts.readOnly ? 'READ ONLY' : 'READ WRITE'),
+    opts.deferrable !== undefined && (opts.deferrable ? 'DEFERRABLE' : 'NOT DEFERRABLE'),
+  ].filter(Boolean);
+
+  return modes.length ? `BEGIN ${modes.join(', ')}` : 'BEGIN';
+}
+
+function hasTransactionModes(opts: QueryHelperBeginOption) {
+  return opts.isolationLevel !== undefined || opts.readOnly !== undefined || opts.deferrable !== undefined;
+}
+
+function resolveRetry(retry: QueryHelperBeginOption['retry']) {
+  const { retries = 3, backoff = (n: number) => Math.random() * Math.min(100 * 2 ** (n - 1), 2000) } =
+    typeof retry === 'object' ? retry : { retries: typeof retry === 'number' ? retry : retry ? undefined : 0 };
+
+  if (!Number.isInteger(retries) || retries < 0) {
+    throw new Error('retries must be a non-negative integer.');
+  }
+  return { retries, backoff: typeof backoff === 'number' ? () => backoff : backoff };
+}
+
+type TransactionHook = () => unknown;
+
+// a savepoint, and the numbers of the hooks registered before it
+type Savepoint = { name: string; commit: number; rollback: number };
+
+// an attempt of the outermost transaction; it can't be retried once committed
+type Attempt = { committed: boolean };
+
+// serialization failure or deadlock
+function isRetryableError(e: unknown) {
+  return typeof e === 'object' && e !== null && 'code' in e && (e.code === '40001' || e.code === '40P01');
+}
+
 /**
  * Query Helper
  */
@@ -83,12 +283,41 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
 
   #opts: QueryHelperOptions<X, Y> & Partial<Queryable<X>>;
   #nested: boolean;
+  // in a transaction; nested `begin` makes a savepoint
+  #transactional = false;
+  #savepoints = 0;
+  // callbacks for the end of the outermost transaction; `rolledBack` are the rollback ones of rolled back savepoints
+  #hooks: { commit: TransactionHook[]; rollback: TransactionHook[]; rolledBack: TransactionHook[] } = {
+    commit: [],
+    rollback: [],
+    rolledBack: [],
+  };
+  // the connection of the transaction in the current async context
+  #ambient?: AsyncLocalStorage<QueryHelper<Y, Y>>;
+  // the savepoint in the current async context, and the last nested `begin` in each, to run them one at a time
+  #savepoint?: AsyncLocalStorage<Savepoint>;
+  #pending = new Map<Savepoint | undefined, Promise<unknown>>();
+  #columnName?: (column: string) => string;
 
   constructor(db: X, opts: QueryHelperOptions<X, Y> & Partial<Queryable<X>> = {}, nested = false) {
     this.#db = db;
     this.#opts = { ...opts };
     this.#nested = nested;
 
+    if (this.#opts.ambientTransaction && !nested) {
+      this.#ambient = new AsyncLocalStorage();
+    }
+
+    if (!this.#opts.dialect && this.#opts.query && 'dialect' in this.#opts.query) {
+      // the adapter knows its dialect
+      this.#opts.dialect = this.#opts.query.dialect as Dialect;
+    }
+
+    this.#columnName =
+      this.#opts.columnName === 'camelCase'
+        ? camelCase
+        : (this.#opts.columnName ?? resolveKeyTransform(this.#opts.keyTransform)?.fromColumn);
+
     if (!this.#opts.connect && !this.#opts.release) {
       if (
         'connect' in this.#db &&
@@ -106,11 +335,15 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
   #parseQueryTemplateStyle(args: QueryTemplateOrSimpleQuery): QueryConfig {
     if (isQueryTemplateStyle(args)) {
       const [texts, ...values] = args;
-      return sql(texts, ...values);
+      return this.#compile(sql(texts, ...values));
     }
 
     const [query, values] = args;
 
+    if ((this.#opts.dialect || this.#opts.dedupe) && isQueryFragment(query)) {
+      return this.#compile(query);
+    }
+
     if (typeof query === 'object' && query && 'text' in query) {
       return {
         text: query.text,
@@ -124,13 +357,47 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
     return { text: query, values: values ?? [] };
   }
 
-  async #exec(query: QueryConfig) {
+  #compile(query: QueryFragment): QueryConfig {
+    if (!this.#opts.dialect && !this.#opts.dedupe) return query as QueryConfig;
+    return query.compile(this.#opts.dialect, { dedupe: this.#opts.dedupe });
+  }
+
+  async #exec(query: QueryConfig): Promise<QueryResult<QueryResultRow>> {
+    const ambient = this.#ambient?.getStore();
+    if (ambient) return await ambient.#exec(query);
+
     const queryFn = this.#opts.query ?? ('query' in this.#db && typeof this.#db.query === 'function' && this.#db.query);
     if (!queryFn) throw new Error('Query function is not configured on the object.');
     return await queryFn.call(this.#db, query);
   }
 
-  async #query<T extends QueryResultRow>(args: QueryTemplateOrSimpleQuery): Promise<pgQueryResult<X, T>> {
+  // splits the trailing row mapper off
+  #splitArgs(args: QueryArgs): [QueryTemplateOrSimpleQuery, Mapper?] {
+    if (isQueryTemplateStyle(args) || args.length < 2 || !isMapper(args[args.length - 1])) {
+      return [args as QueryTemplateOrSimpleQuery];
+    }
+    return [args.slice(0, -1) as QueryTemplateOrSimpleQuery, args[args.length - 1] as Mapper];
+  }
+
+  async #mapRows(rows: QueryResultRow[], mapper?: Mapper) {
+    const columnName = this.#columnName;
+    if (columnName) {
+      rows = rows.map((row) => Object.fromEntries(Object.entries(row).map(([k, v]) => [columnName(k), v])));
+    }
+    if (mapper) {
+      rows = (await Promise.all(rows.map((row) => mapRow(mapper, row)))) as QueryResultRow[];
+    }
+    return rows;
+  }
+
+  async #query<T extends QueryResultRow>(args: QueryArgs): Promise<pgQueryResult<X, T>> {
+    const [queryArgs, mapper] = this.#splitArgs(args);
+    const results = await this.#execute(queryArgs);
+    if (results.rows) results.rows = await this.#mapRows(results.rows, mapper);
+    return results as pgQueryResult<X, T>;
+  }
+
+  async #execute(args: QueryTemplateOrSimpleQuery) {
     const query = this.#parseQueryTemplateStyle(args);
 
     this.#opts?.beforeQuery?.(query as Readonly<QueryConfig>);
@@ -145,7 +412,62 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
 
     this.#opts?.afterQuery?.(query as Readonly<QueryConfig>, pick(results, ['command', 'rowCount', 'rows']));
 
-    return results as pgQueryResult<X, T>;
+    return results;
+  }
+
+  get #buildOptions(): BuildOptions {
+    return { keyTransform: this.#opts.keyTransform };
+  }
+
+  #buildArgs(
+    appendix?: Appendix<Returning<QueryResultRow>, InsertOption<Returning<QueryResultRow>>>,
+  ): [string | QueryFragment | undefined, BuildOptions] {
+    if (typeof appendix === 'object' && !isQueryFragment(appendix)) {
+      return [undefined, { ...this.#buildOptions, returning: appendix.returning, unnest: appendix.unnest }];
+    }
+    return [appendix, this.#buildOptions];
+  }
+
+  // splits the rows into the statements within the parameter limit, and runs them in a transaction
+  async #bulk(
+    fvs: FieldValues | FieldValues[],
+    appendix: Appendix<unknown, InsertOption<unknown>> | undefined,
+    build: (rows: FieldValues[]) => QueryFragment,
+  ) {
+    const rows = Array.isArray(fvs) ? fvs : [fvs];
+    const { chunkSize, unnest } = typeof appendix === 'object' && !isQueryFragment(appendix) ? appendix : {};
+
+    if (chunkSize !== undefined && (!Number.isInteger(chunkSize) || chunkSize <= 0)) {
+      throw new Error('chunkSize must be a positive integer.');
+    }
+
+    // UNNEST binds a fixed number of arrays regardless of the rows
+    const size = chunkSize ?? (unnest ? Infinity : this.#chunkSizeOf(rows, build));
+    if (rows.length <= size) {
+      return await this.#query([build(rows)]);
+    }
+
+    return await this.begin(async (conn) => {
+      const results = [];
+      for (let i = 0; i < rows.length; i += size) {
+        results.push(await conn.query(build(rows.slice(i, i + size))));
+      }
+
+      return {
+        ...results[0],
+        rowCount: results.reduce((n, r) => n + r.rowCount, 0),
+        rows: results.flatMap((r) => r.rows),
+      };
+    });
+  }
+
+  #chunkSizeOf(rows: FieldValues[], build: (rows: FieldValues[]) => QueryFragment) {
+    if (rows.length <= 1) return Infinity;
+
+    const dialect = this.#opts.dialect ?? pgDialect;
+    const maxParameters = dialect.maxParameters ?? Infinity;
+    const perRow = build(rows.slice(0, 1)).compile(dialect).values.length;
+    return perRow ? Math.max(1, Math.floor(maxParameters / perRow)) : Infinity;
   }
 
   // ======================================================================
@@ -156,14 +478,54 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
    *
    * @example
    *   await db.insert('table', { name: 'myname' }, 'RETURNING *');
+   *   await db.insert('table', { name: 'myname' }, { returning: ['id', 'created_at'] });
    */
-  async insert<T extends QueryResultRow>(
+  async insert<T extends Table, const R extends Returning<RowOf<T>> = '*'>(
+    table: T,
+    fvs: FieldValuesOf<T> | FieldValuesOf<T>[],
+    appendix?: Appendix<R, InsertOption<R>>,
+  ): Promise<pgQueryResult<X, ReturnedRow<RowOf<T>, R>>>;
+  async insert<T extends QueryResultRow = QueryResultRow, const R extends Returning<T> = Returning<T>>(
     table: string,
     fvs: FieldValues | FieldValues[],
-    appendix?: string | QueryFragment,
-  ) {
-    const query = buildInsert(table, fvs, appendix);
-    return await this.#query<T>([query]);
+    appendix?: Appendix<R, InsertOption<R>>,
+  ): Promise<pgQueryResult<X, ReturnedRow<T, R>>>;
+  async insert(
+    table: string | Table,
+    fvs: FieldValues | FieldValues[],
+    appendix?: Appendix<Returning<QueryResultRow>, InsertOption<Returning<QueryResultRow>>>,
+  ): Promise<unknown> {
+    const args = this.#buildArgs(appendix);
+    return await this.#bulk(fvs, appendix, (rows) => buildInsert(table, rows, ...args));
+  }
+
+  /**
+   * INSERT a row and returns the inserted row; `RETURNING *` by default
+   *
+   * @example
+   *   const user = await db.insertOne('users', { name: 'myname' }, { returning: ['id'] });
+   *     => { id: 1 }
+   */
+  async insertOne<T extends Table, const R extends Returning<RowOf<T>> = '*'>(
+    table: T,
+    fv: FieldValuesOf<T>,
+    opts?: ReturningOption<R>,
+  ): Promise<ReturnedRow<RowOf<T>, R>>;
+  async insertOne<T extends QueryResultRow = QueryResultRow, const R extends Returning<T> = Returning<T>>(
+    table: string,
+    fv: FieldValues,
+    opts?: ReturningOption<R>,
+  ): Promise<ReturnedRow<T, R>>;
+  async insertOne(
+    table: string | Table,
+    fv: FieldValues,
+    opts?: ReturningOption<Returning<QueryResultRow>>,
+  ): Promise<unknown> {
+    const query = buildInsert(table, fv, undefined, {
+      ...this.#buildOptions,
+      returning: opts?.returning ?? '*',
+    });
+    return (await this.#query([query])).rows[0];
   }
 
   /**
@@ -172,18 +534,68 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
    * @example
    *   await db.update('table', { name: 'myname' }, { id: 'root' }, 'RETURNING *');
    */
-  async update<T extends QueryResultRow>(
+  async update<T extends Table, const R extends Returning<RowOf<T>> = '*'>(
+    table: T,
+    fv: FieldValuesOf<T>,
+    where: WhereArgOf<T>,
+    appendix?: Appendix<R>,
+  ): Promise<pgQueryResult<X, ReturnedRow<RowOf<T>, R>>>;
+  async update<T extends QueryResultRow = QueryResultRow, const R extends Returning<T> = Returning<T>>(
     table: string,
     fv: FieldValues,
     where: WhereArg,
-    appendix?: string | QueryFragment,
+    appendix?: Appendix<R>,
+  ): Promise<pgQueryResult<X, ReturnedRow<T, R>>>;
+  async update(
+    table: string | Table,
+    fv: FieldValues,
+    where: WhereArg,
+    appendix?: Appendix<Returning<QueryResultRow>>,
+  ): Promise<unknown> {
+    return await this.#update(table, fv, where, appendix);
+  }
+
+  async #update(
+    table: string | Table,
+    fv: FieldValues,
+    where: WhereArg,
+    appendix?: Appendix<Returning<QueryResultRow>>,
   ) {
     if (isWhereEmpty(where)) {
       throw new Error(UPDATE_ALL_WITHOUT_FORCE_ERROR);
     }
 
-    const query = buildUpdate(table, fv, where, appendix);
-    return await this.#query<T>([query]);
+    const query = buildUpdate(table, fv, where, ...this.#buildArgs(appendix));
+    return await this.#query([query]);
+  }
+
+  /**
+   * UPDATE and returns the (first) updated row; `RETURNING *` by default
+   *
+   * @example
+   *   const user = await db.updateOne('users', { name: 'myname' }, { id: 1 });
+   *     => { id: 1, name: 'myname', ... } or undefined if no row is updated
+   */
+  async updateOne<T extends Table, const R extends Returning<RowOf<T>> = '*'>(
+    table: T,
+    fv: FieldValuesOf<T>,
+    where: WhereArgOf<T>,
+    opts?: ReturningOption<R>,
+  ): Promise<ReturnedRow<RowOf<T>, R> | undefined>;
+  async updateOne<T extends QueryResultRow = QueryResultRow, const R extends Returning<T> = Returning<T>>(
+    table: string,
+    fv: FieldValues,
+    where: WhereArg,
+    opts?: ReturningOption<R>,
+  ): Promise<ReturnedRow<T, R> | undefined>;
+  async updateOne(
+    table: string | Table,
+    fv: FieldValues,
+    where: WhereArg,
+    opts?: ReturningOption<Returning<QueryResultRow>>,
+  ): Promise<unknown> {
+    const { rows } = await this.#update(table, fv, where, { returning: opts?.returning ?? '*' });
+    return rows[0];
   }
 
   /**
@@ -192,17 +604,27 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
    * @example
    *   await db.delete('table', { id: 'root' }, 'RETURNING *');
    */
-  async delete<T extends QueryResultRow>(
+  async delete<T extends Table, const R extends Returning<RowOf<T>> = '*'>(
+    table: T,
+    where: WhereArgOf<T>,
+    appendix?: Appendix<R>,
+  ): Promise<pgQueryResult<X, ReturnedRow<RowOf<T>, R>>>;
+  async delete<T extends QueryResultRow = QueryResultRow, const R extends Returning<T> = Returning<T>>(
     table: string,
     where: WhereArg,
-    appendix?: string | QueryFragment,
-  ): Promise<QueryResult<T>> {
+    appendix?: Appendix<R>,
+  ): Promise<QueryResult<ReturnedRow<T, R>>>;
+  async delete(
+    table: string | Table,
+    where: WhereArg,
+    appendix?: Appendix<Returning<QueryResultRow>>,
+  ): Promise<unknown> {
     if (isWhereEmpty(where)) {
       throw new Error(DELETE_ALL_WITHOUT_FORCE_ERROR);
     }
 
-    const query = buildDelete(table, where, appendix);
-    return await this.#query<T>([query]);
+    const query = buildDelete(table, where, ...this.#buildArgs(appendix));
+    return await this.#query([query]);
   }
 
   /**
@@ -210,15 +632,28 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
    *
    * @example
    *   await db.upsert('table', { id: '1' name: 'myname' }, ['id'], 'RETURNING *');
+   *   await db.upsert('table', { id: '1', count: 1 }, { keys: ['id'], set: { count: sql`table.count + 1` } });
    */
-  async upsert<T extends QueryResultRow>(
+  async upsert<T extends Table, const R extends Returning<RowOf<T>> = '*'>(
+    table: T,
+    fvs: FieldValuesOf<T> | FieldValuesOf<T>[],
+    onConflict: ColumnOf<T>[] | UpsertOptions<ColumnOf<T>, WhereArgOf<T>>,
+    appendix?: Appendix<R, InsertOption<R>>,
+  ): Promise<pgQueryResult<X, ReturnedRow<RowOf<T>, R>>>;
+  async upsert<T extends QueryResultRow = QueryResultRow, const R extends Returning<T> = Returning<T>>(
     table: string,
     fvs: FieldValues | FieldValues[],
-    onConflictKeys: string[],
-    appendix?: string | QueryFragment,
-  ) {
-    const query = buildUpsert(table, fvs, onConflictKeys, appendix);
-    return await this.#query<T>([query]);
+    onConflict: string[] | UpsertOptions,
+    appendix?: Appendix<R, InsertOption<R>>,
+  ): Promise<pgQueryResult<X, ReturnedRow<T, R>>>;
+  async upsert(
+    table: string | Table,
+    fvs: FieldValues | FieldValues[],
+    onConflict: string[] | UpsertOptions,
+    appendix?: Appendix<Returning<QueryResultRow>, InsertOption<Returning<QueryResultRow>>>,
+  ): Promise<unknown> {
+    const args = this.#buildArgs(appendix);
+    return await this.#bulk(fvs, appendix, (rows) => buildUpsert(table, rows, onConflict, ...args));
   }
 
   /**
@@ -226,10 +661,15 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
    *
    * It's equivalent to ```db.query(sql`...`)```
    *
+   * A row mapper can be given after the query to map and validate the rows.
+   *
    * @example
    *   const { rows } = await db.query`SELECT * FROM table WHERE id = ${id}`
+   *   const { rows } = await db.query(sql`SELECT * FROM table WHERE id = ${id}`, UserSchema)
    */
-  async query<T extends QueryResultRow>(...args: QueryTemplateOrSimpleQuery) {
+  async query<T>(...args: QueryWithRowMapper<T>): Promise<pgQueryResult<X, T & QueryResultRow>>;
+  async query<T extends QueryResultRow>(...args: QueryTemplateOrSimpleQuery): Promise<pgQueryResult<X, T>>;
+  async query<T extends QueryResultRow>(...args: QueryArgs) {
     return this.#query<T>(args);
   }
 
@@ -239,8 +679,11 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
    * @example
    *   const rows = await db.getRows`SELECT * FROM table WHERE id = ${id}`
    *     => [{ id: 10, name: '...' }, ...]
+   *   const users = await db.getRows(sql`SELECT * FROM users`, UserSchema)
    */
-  async getRows<T extends QueryResultRow>(...args: QueryTemplateOrSimpleQuery) {
+  async getRows<T>(...args: QueryWithRowMapper<T>): Promise<T[]>;
+  async getRows<T extends QueryResultRow>(...args: QueryTemplateOrSimpleQuery): Promise<T[]>;
+  async getRows<T extends QueryResultRow>(...args: QueryArgs) {
     return this.#query<T>(args).then((x) => x.rows);
   }
 
@@ -250,20 +693,34 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
    * @example
    *   const row = await db.getRow`SELECT * FROM table WHERE id = ${id}`
    *     => { id: 10, name: '...' }
+   *   const user = await db.getRow(sql`SELECT * FROM users WHERE id = ${id}`, UserSchema)
    */
-  async getRow<T extends QueryResultRow>(...args: QueryTemplateOrSimpleQuery) {
-    return this.#query<T>(args).then((x) => x.rows?.[0] as T | undefined);
+  async getRow<T>(...args: QueryWithRowMapper<T>): Promise<T | undefined>;
+  async getRow<T extends QueryResultRow>(...args: QueryTemplateOrSimpleQuery): Promise<T | undefined>;
+  async getRow(...args: QueryArgs) {
+    const [queryArgs, mapper] = this.#splitArgs(args);
+    const row = (await this.#execute(queryArgs)).rows?.[0];
+    return row && (await this.#mapRows([row], mapper))[0];
   }
 
   /**
-   * Get a single value directly
+   * Get a single value directly; a mapper after the query is applied to the value
    *
    * @example
-   *   const value = await db.getRow`SELECT 10`
+   *   const value = await db.getOne`SELECT 10`
    *     => 10
+   *   const count = await db.getOne(sql`SELECT count(*) FROM users`, Number)
+   *     => 42
    */
-  async getOne<T = unknown>(...args: QueryTemplateOrSimpleQuery) {
-    return this.#query<[T]>(args).then((x) => Object.values(x.rows?.[0] ?? {})?.[0] as T | undefined);
+  async getOne<T>(...args: QueryWithValueMapper<T>): Promise<T | undefined>;
+  async getOne<T = unknown>(...args: QueryTemplateOrSimpleQuery): Promise<T | undefined>;
+  async getOne(...args: QueryArgs) {
+    const [queryArgs, mapper] = this.#splitArgs(args);
+    const row = (await this.#execute(queryArgs)).rows?.[0];
+    if (!row) return undefined;
+
+    const value = Object.values(row)[0];
+    return mapper ? await mapRow(mapper, value) : value;
   }
 
   /**
@@ -290,53 +747,306 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
     return this.#query(args).then((x) => x.rowCount);
   }
 
-  async #begin(opts: QueryHelperBeginOption) {
-    if (this.#nested) return this as unknown as QueryHelper<Y, Y>;
+  /**
+   * Keyset (cursor) pagination
+   *
+   * The query is wrapped as a subquery, so the sort keys refer to its result columns.
+   *
+   * @example
+   *   const { rows, nextCursor } = await db.paginate(sql`SELECT * FROM table`, { created_at: 'desc', id: 'desc' }, {
+   *     limit: 20,
+   *     cursor: req.query.cursor,
+   *   });
+   */
+  async paginate<T extends QueryResultRow>(
+    query: QueryFragment,
+    spec: OrderBySpec,
+    opts: QueryHelperPaginateOption,
+  ): Promise<Page<T>> {
+    const { limit, cursor, ...orderByOpts } = opts;
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error('paginate requires a positive integer limit.');
+    }
+
+    const keyset = buildKeyset(spec, cursor, orderByOpts);
+    const { rows } = await this.#execute([
+      sql(sql`SELECT * FROM (${query}) AS _page`, WHERE(keyset.where), keyset.orderBy, LIMIT(limit + 1)).join(' '),
+    ]);
+
+    const hasMore = rows.length > limit;
+    const page = rows.slice(0, limit);
+    if (keyset.backward) page.reverse();
+
+    const first = page[0];
+    const last = page[page.length - 1];
+    const hasNext = keyset.backward ? !!cursor : hasMore;
+    const hasPrev = keyset.backward ? hasMore : !!cursor;
+
+    return {
+      rows: (await this.#mapRows(page)) as T[],
+      nextCursor: hasNext && last ? keyset.cursorOf(last) : null,
+      prevCursor: hasPrev && first ? keyset.cursorOf(first, true) : null,
+    };
+  }
+
+  /**
+   * Stream rows into the table with `COPY ... FROM STDIN`, and returns the number of the copied rows
+   *
+   * It requires the `copyStream` adapter.
+   *
+   * @example
+   *   await db.copyFrom('users', ['id', 'name'], rows);
+   *   await db.copyFrom('users', ['id', 'name'], readRows(), { format: 'csv' });
+   */
+  async copyFrom<T extends string | Table>(
+    table: T,
+    columns: ColumnOf<T>[],
+    rows: AsyncIterable<FieldValuesOf<T>> | Iterable<FieldValuesOf<T>>,
+    opts?: QueryHelperCopyFromOption,
+  ): Promise<number>;
+  async copyFrom(
+    table: string | Table,
+    columns: string[],
+    rows: AsyncIterable<FieldValues> | Iterable<FieldValues>,
+    opts: QueryHelperCopyFromOption = {},
+  ): Promise<number> {
+    const copyStream = this.#opts.copyStream;
+    if (!copyStream) throw new Error('Copy stream adapter is not configured.');
+    if (!columns.length) throw new Error('copyFrom requires at least one column.');
+
+    const ambient = this.#ambient?.getStore();
+    if (ambient) {
+      return await ambient.copyFrom(table, columns, rows, opts);
+    }
+
+    // COPY needs a connection of its own
+    if (!this.#nested && this.#opts.connect) {
+      return await this.begin({ transaction: false }, (conn) => conn.copyFrom(table, columns, rows, opts));
+    }
+
+    const toColumn = resolveKeyTransform(this.#opts.keyTransform)?.toColumn ?? ((k: string) => k);
+    const names = columns.map(toColumn);
+    assertColumns(table, names);
+
+    const query = this.#parseQueryTemplateStyle([
+      sql(
+        sql`COPY ${ident(tableName(table))}`,
+        sql(...names.map((name) => ident(name))).setSewingPattern('(', ', ', ')'),
+        sql`FROM STDIN`,
+        opts.format === 'csv' ? sql`WITH (FORMAT csv)` : undefined,
+      ).join(' '),
+    ]);
+
+    let count = 0;
+    const counted = (async function* () {
+      for await (const row of rows) {
+        count++;
+        yield row;
+      }
+    })();
+
+    this.#opts?.beforeQuery?.(query as Readonly<QueryConfig>);
+    const copied = await copyStream
+      .call(this.#db, query, encodeCopyRows(counted, columns, opts.format))
+      .catch((e: unknown) => {
+        this.#opts?.onError?.(query as Readonly<QueryConfig>, e);
+        throw e;
+      });
+
+    const results = { command: 'COPY', rowCount: copied ?? count, rows: [] };
+    this.#opts?.afterQuery?.(query as Readonly<QueryConfig>, results);
+
+    return results.rowCount;
+  }
+
+  async #begin(opts: QueryHelperBeginOption): Promise<[conn: QueryHelper<Y, Y>, savepoint?: Savepoint]> {
+    if (this.#nested) {
+      const conn = this as unknown as QueryHelper<Y, Y>;
+      if (hasTransactionModes(opts)) {
+        throw new Error('Transaction modes cannot be set on a nested transaction.');
+      }
+      if (opts.settings && Object.keys(opts.settings).length) {
+        throw new Error('Settings cannot be set on a nested transaction.');
+      }
+      if (opts.role) {
+        throw new Error('Role cannot be set on a nested transaction.');
+      }
+      if (!this.#transactional || opts.transaction === false) return [conn];
+
+      const savepoint = {
+        name: `sp_${++this.#savepoints}`,
+        commit: this.#hooks.commit.length,
+        rollback: this.#hooks.rollback.length,
+      };
+      await this.#exec({ text: `SAVEPOINT ${savepoint.name}`, values: [] });
+      return [conn, savepoint];
+    }
 
+    const begin = beginStatement(opts);
     const conn = new QueryHelper<Y, Y>(
       (await this.#opts.connect?.(this.#db)) ?? (this.#db as unknown as Y),
       this.#opts as QueryHelperOptions<Y, Y> & Partial<Queryable<Y>>,
       true,
     );
 
-    if (opts.role) {
-      await conn.#exec(this.#parseQueryTemplateStyle([sql`SET ROLE ${ident(opts.role)}`]));
-    }
-    if (opts.transaction !== false) {
-      await conn.#exec({ text: 'BEGIN', values: [] });
+    let role = false;
+    try {
+      if (opts.role) {
+        await conn.#exec(this.#parseQueryTemplateStyle([sql`SET ROLE ${ident(opts.role)}`]));
+        role = true;
+      }
+      if (opts.transaction !== false) {
+        await conn.#exec({ text: begin, values: [] });
+        conn.#transactional = true;
+      }
+
+      const settings = Object.entries(opts.settings ?? {});
+      if (settings.length) {
+        // local to the transaction; otherwise they are RESET at the end
+        const local = raw(opts.transaction !== false ? 'true' : 'false');
+        const configs = settings.map(([name, value]) => sql`set_config(${name}, ${String(value)}, ${local})`);
+        await conn.#exec(this.#parseQueryTemplateStyle([sql`SELECT ${sql(...configs).join(', ')}`]));
+      }
+    } catch (e) {
+      // the connection goes back to the pool as it was
+      if (conn.#transactional) {
+        await this.#rollback(conn, opts);
+      } else {
+        try {
+          if (role) await conn.#exec({ text: 'SET ROLE NONE', values: [] });
+        } finally {
+          await this.#opts.release?.(conn.#db);
+        }
+      }
+      throw e;
     }
 
-    return conn;
+    return [conn];
   }
 
-  async #commit(conn: QueryHelper<Y, Y>, opts: QueryHelperBeginOption, commit = true) {
-    if (this.#nested) return;
+  async #commit(
+    conn: QueryHelper<Y, Y>,
+    opts: QueryHelperBeginOption,
+    savepoint?: Savepoint,
+    commit = true,
+    attempt?: Attempt,
+  ) {
+    if (this.#nested) {
+      if (savepoint) {
+        const text = commit ? `RELEASE SAVEPOINT ${savepoint.name}` : `ROLLBACK TO SAVEPOINT ${savepoint.name}`;
+        await this.#exec({ text, values: [] });
+
+        if (!commit) {
+          // the work since the savepoint never commits
+          this.#hooks.commit.splice(savepoint.commit);
+          this.#hooks.rolledBack.push(...this.#hooks.rollback.splice(savepoint.rollback));
+        }
+      }
+      return;
+    }
 
+    let committed = false;
     try {
       if (opts.transaction !== false) {
         await conn.#exec({ text: commit ? 'COMMIT' : 'ROLLBACK', values: [] });
+      } else {
+        for (const name of Object.keys(opts.settings ?? {})) {
+          await conn.#exec(this.#parseQueryTemplateStyle([sql`RESET ${ident(name)}`]));
+        }
       }
+      committed = commit;
+      if (attempt) attempt.committed = committed;
       if (opts.role) {
         await conn.#exec({ text: 'SET ROLE NONE', values: [] });
       }
     } finally {
-      await this.#opts.release?.(conn.#db);
+      try {
+        await this.#opts.release?.(conn.#db);
+      } finally {
+        await conn.#runHooks(committed);
+      }
     }
   }
 
-  async #rollback(conn: QueryHelper<Y, Y>, opts: QueryHelperBeginOption) {
-    return this.#commit(conn, opts, false);
+  async #runHooks(committed: boolean) {
+    const { commit, rollback, rolledBack } = this.#hooks;
+    this.#hooks = { commit: [], rollback: [], rolledBack: [] };
+
+    const hooks = committed
+      ? [...commit.map((fn) => ['commit', fn] as const), ...rolledBack.map((fn) => ['rollback', fn] as const)]
+      : [...rolledBack, ...rollback].map((fn) => ['rollback', fn] as const);
+
+    for (const [hook, fn] of hooks) {
+      try {
+        await fn();
+      } catch (e) {
+        // the transaction has ended already; its result, or its error, is returned instead
+        try {
+          if (this.#opts.onHookError) this.#opts.onHookError(e, hook);
+          else process.emitWarning(e instanceof Error ? e : String(e), { code: 'QUERY_WEAVER_HOOK_ERROR' });
+        } catch {
+          // a failing reporter doesn't stop the rest of the callbacks
+        }
+      }
+    }
+  }
+
+  #transactionOf(method: string): QueryHelper<X, Y> {
+    const ambient = this.#ambient?.getStore();
+    if (ambient) return ambient as unknown as QueryHelper<X, Y>;
+    if (!this.#nested) throw new Error(`${method} requires a transaction.`);
+    return this;
+  }
+
+  /**
+   * Register a callback to be called after the outermost transaction is committed
+   *
+   * The callbacks registered in a savepoint that is rolled back are discarded.
+   * Their errors are reported to `onHookError` instead of failing the committed transaction.
+   *
+   * @example
+   *   await db.begin(async (conn) => {
+   *     await conn.insert('jobs', job);
+   *     conn.onCommit(() => queue.notify());
+   *   });
+   */
+  onCommit(fn: TransactionHook) {
+    this.#transactionOf('onCommit').#hooks.commit.push(fn);
+  }
+
+  /**
+   * Register a callback to be called after the outermost transaction is rolled back
+   *
+   * The callbacks registered in a savepoint that is rolled back are called at the end of the outermost transaction.
+   * Their errors are reported to `onHookError`, so that the error of the transaction is thrown.
+   *
+   * @example
+   *   await db.begin(async (conn) => {
+   *     cache.set(key, value);
+   *     conn.onRollback(() => cache.delete(key));
+   *   });
+   */
+  onRollback(fn: TransactionHook) {
+    this.#transactionOf('onRollback').#hooks.rollback.push(fn);
+  }
+
+  async #rollback(conn: QueryHelper<Y, Y>, opts: QueryHelperBeginOption, savepoint?: Savepoint) {
+    return this.#commit(conn, opts, savepoint, false);
   }
 
   /**
    * BEGIN the transaction
    *
+   * A nested `begin` in a transaction makes a SAVEPOINT, so that it can be rolled back on its own.
+   * With the `retry` option, the outermost transaction is re-run on a new connection on serialization failures.
+   *
    * @example
    *   await db.begin(() => {
    *     await db.insert(...);
    *     await db.update(...);
    *     return true;
    *   });
+   *   await db.begin({ isolationLevel: 'SERIALIZABLE', retry: 5 }, async (conn) => { ... });
    */
   async begin<R>(callback: (conn: WithQueryHelper<Y, Y>) => Promise<R>): Promise<R>;
   async begin<R>(opts: QueryHelperBeginOption, callback: (conn: WithQueryHelper<Y, Y>) => Promise<R>): Promise<R>;
@@ -348,21 +1058,71 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
       callback = opts;
       opts = {};
     }
-    const conn: QueryHelper<Y, Y> = await this.#begin(opts);
+
+    // nested in the ambient transaction
+    const ambient = this.#ambient?.getStore();
+    if (ambient) return await ambient.begin(opts, callback!);
+
+    // savepoints of the same transaction can't interleave
+    if (this.#nested && this.#transactional && opts.transaction !== false) {
+      return await this.#inTurn(() => this.#transaction(opts, callback!));
+    }
+
+    const retry = resolveRetry(opts.retry);
+    for (let n = 1; ; n++) {
+      const attempt: Attempt = { committed: false };
+      try {
+        return await this.#transaction(opts, callback!, attempt);
+      } catch (error) {
+        // a nested one can't be retried, as the whole transaction has failed; nor a committed one
+        if (this.#nested || attempt.committed || n > retry.retries || !isRetryableError(error)) throw error;
+        await new Promise((resolve) => setTimeout(resolve, retry.backoff(n)));
+      }
+    }
+  }
+
+  async #transaction<R>(
+    opts: QueryHelperBeginOption,
+    callback: (conn: WithQueryHelper<Y, Y>) => Promise<R>,
+    attempt?: Attempt,
+  ) {
+    const [conn, savepoint] = await this.#begin(opts);
 
     let result;
     try {
-      result = await callback!(conn.wrap());
+      const run = () => callback(conn.wrap());
+      result = await (this.#ambient
+        ? this.#ambient.run(conn, run)
+        : savepoint && this.#savepoint
+          ? this.#savepoint.run(savepoint, run)
+          : run());
     } catch (error) {
-      await this.#rollback(conn, opts);
+      await this.#rollback(conn, opts, savepoint);
       throw error;
     }
 
-    await this.#commit(conn, opts);
+    await this.#commit(conn, opts, savepoint, true, attempt);
 
     return result;
   }
 
+  // waits for the previous nested `begin` in the same savepoint, or in the outermost transaction
+  async #inTurn<R>(fn: () => Promise<R>): Promise<R> {
+    const parent = (this.#savepoint ??= new AsyncLocalStorage()).getStore();
+    const previous = this.#pending.get(parent);
+    const current = (async () => {
+      await previous?.catch(() => undefined);
+      return await fn();
+    })();
+
+    this.#pending.set(parent, current);
+    try {
+      return await current;
+    } finally {
+      if (this.#pending.get(parent) === current) this.#pending.delete(parent);
+    }
+  }
+
   // ======================================================================
   // query adapters
 
@@ -410,8 +1170,50 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
     };
   }
 
+  /**
+   * pg-copy-streams adapter for `copyFrom`
+   *
+   * @example
+   *   import { from as copyFrom } from 'pg-copy-streams';
+   *   const db = withQueryHelper(pool, { copyStream: QueryHelper.pgCopyStreams(copyFrom) });
+   */
+  public static pgCopyStreams(copyFrom: (text: string) => unknown): CopyStreamAdapter {
+    return async function (this: object, { text }: QueryConfig, chunks: AsyncIterable<string>) {
+      if (!('query' in this) || typeof this.query !== 'function') {
+        throw new Error('pg-copy-streams adapter requires a query function.');
+      }
+
+      const stream: CopyStream = this.query(copyFrom(text));
+      const done = new Promise<void>((resolve, reject) => {
+        stream.once('finish', () => resolve());
+        stream.once('error', reject);
+      });
+      // it's awaited later, unless the rows fail first
+      done.catch(() => undefined);
+
+      try {
+        for await (const chunk of chunks) {
+          if (!stream.write(chunk)) {
+            await Promise.race([new Promise((resolve) => stream.once('drain', resolve)), done]);
+          }
+        }
+        stream.end();
+      } catch (e) {
+        // aborts the COPY
+        stream.destroy(e as Error);
+        throw e;
+      }
+
+      await done;
+      return stream.rowCount;
+    };
+  }
+
+  /**
+   * SQLite adapter: queries are compiled for SQLite unless the `dialect` option is given
+   */
   public static get sqlite() {
-    return async function <T extends QueryResultRow>(this: object, config: QueryConfig) {
+    const fn = async function <T extends QueryResultRow>(this: object, config: QueryConfig) {
       if ('prepare' in this && typeof this.prepare === 'function') {
         const stmt = this.prepare(config.sql || config.text);
         const rows: T[] = stmt.all(...(config.values as string[]));
@@ -420,6 +1222,7 @@ export class QueryHelper<X extends object = object, Y extends object = object> {
       }
       throw new Error('SQLite adapter requires a prepare function.');
     };
+    return Object.assign(fn, { dialect: sqliteDialect });
   }
 
   wrap() {
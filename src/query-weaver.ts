@@ -1,95 +1,38 @@
-import { StringReader } from '@kikuchan/string-reader';
-import { quoteIdent, quoteLiteral } from './quote.ts';
-
-type Context = {
-  inLineComment?: boolean;
-  inBlockComment?: number;
-  inSingleQuote?: boolean;
-  inEscapedSingleQuote?: boolean;
-  dollarQuoted?: string;
+import type { KeyTransformOption } from './case.ts';
+import { resolveKeyTransform } from './case.ts';
+import type { Context, Dialect } from './dialect.ts';
+import { pgDialect, pgIdent, pgPrepare, pgString } from './dialect.ts';
+import type { ColumnOf, FieldValuesOf, Table, WhereArgOf } from './table.ts';
+import { assertColumns, columnTypeOf, isTable, tableName } from './table.ts';
+
+type ValueOptions = {
+  name?: string;
+  shared?: boolean;
+  type?: string;
+  literal?: (v: unknown, dialect: Dialect) => string | undefined;
 };
-
-type EscapeFunction = (v: unknown, context?: Context) => string;
+type EscapeFunction = (v: unknown, context?: Context, opts?: ValueOptions) => string;
 export type FieldValues = Record<string, unknown>;
 export type WhereArg = string | FieldValues | QueryFragment | undefined | WhereArg[];
 
+export type BuildOptions = {
+  // maps object keys to column names, e.g. 'snake_case' for `createdAt` to `created_at`
+  keyTransform?: KeyTransformOption;
+  // RETURNING clause; the columns or '*'
+  returning?: readonly string[] | '*';
+  // binds an array per column with UNNEST (PostgreSQL); the column types, or true to take them from the table
+  unnest?: boolean | Record<string, string>;
+};
+
 export const DELETE_ALL_WITHOUT_FORCE_ERROR = 'DELETE requires a non-empty WHERE condition.';
 export const UPDATE_ALL_WITHOUT_FORCE_ERROR = 'UPDATE requires a non-empty WHERE condition.';
 
-export function pgIdent(s: string, _ctx?: Context) {
-  // '.' is a special for us
-  return s
-    .split('.')
-    .map((x) => quoteIdent(x))
-    .join('.');
-}
-
-// fallback function for when the EscapeFunction is not specified
-export function pgString(s: unknown, _ctx?: Context): string {
-  if (s === null) return 'NULL';
-  if (typeof s === 'boolean') return s ? 'true' : 'false';
-  if (Array.isArray(s)) return 'ARRAY[' + s.map((e) => pgString(e)).join(',') + ']';
-  if (typeof s === 'object') {
-    if ('toJSON' in s && typeof s.toJSON === 'function') {
-      return quoteLiteral(String(s.toJSON()));
-    }
-    return quoteLiteral(s.toString());
-  }
-  return quoteLiteral(String(s));
-}
-
-function pgContextHandler(ctx: Context, src: string): void {
-  const r = new StringReader(src);
-
-  while (!r.eof()) {
-    if (ctx.dollarQuoted) {
-      if (!r.search(ctx.dollarQuoted)) break;
-      ctx.dollarQuoted = undefined;
-    } else if (ctx.inEscapedSingleQuote) {
-      if (!r.skipUntil(/[\\']/)) break;
-      if (r.match("''")) continue; // ignore double single-quote
-      if (r.match(/\\./)) continue; // skip the escaped string
-
-      // must be the ending of the single-quote
-      if (!r.match("'")) break;
-      ctx.inEscapedSingleQuote = false;
-    } else if (ctx.inSingleQuote) {
-      if (!r.skipUntil("'")) break;
-      if (r.match("''")) continue; // ignore double single-quote
-
-      // must be the ending of the single-quote
-      if (!r.match("'")) break;
-      ctx.inSingleQuote = false;
-    } else if (ctx.inBlockComment) {
-      if (!r.skipUntil(/\/\*|\*\//)) break;
-      if (r.match('/*', () => ++ctx!.inBlockComment!)) continue;
-
-      // must be the ending of the block comment
-      if (!r.match('*/')) break;
-      ctx.inBlockComment--;
-    } else if (ctx.inLineComment) {
-      if (!r.search(/\r\n|\r|\n/)) break;
-      ctx.inLineComment = false;
-    } else {
-      if (!r.skipUntil(/[-$E'/]/)) break;
-
-      if (r.match(/\$[a-zA-Z0-9_]*\$/, (m) => (ctx.dollarQuoted = m[0]))) continue;
-      if (r.match("E'", () => (ctx.inEscapedSingleQuote = true))) continue;
-      if (r.match("'", () => (ctx.inSingleQuote = true))) continue;
-      if (r.match('--', () => (ctx.inLineComment = true))) continue;
-      if (r.match('/*', () => (ctx.inBlockComment = 1))) continue;
-
-      // not a known token
-      r.skip();
-    }
-  }
-}
-
 function shouldIgnoreValue(ctx?: Context) {
   if (!ctx) return false;
 
   return !!(
     ctx.dollarQuoted ||
+    ctx.quotedIdent ||
     ctx.inLineComment ||
     ctx.inBlockComment ||
     ctx.inSingleQuote ||
@@ -102,6 +45,26 @@ type QueryFragmentToStringOptions = {
   identFn?: EscapeFunction;
   context: Context;
   contextHandler?: (ctx: Context, s: string) => void;
+  dialect?: Dialect;
+};
+
+export type CompiledQuery = {
+  text: string;
+  values: unknown[];
+  embed: string;
+};
+
+export type NamedCompiledQuery = {
+  text: string;
+  values: Record<string, unknown>;
+  embed: string;
+};
+
+export type CompileOptions = {
+  // bind values by name; see `param`
+  named?: boolean;
+  // reuse a placeholder for the identical (===) values; see also `shared`
+  dedupe?: boolean;
 };
 
 export interface QueryFragment {
@@ -110,6 +73,8 @@ export interface QueryFragment {
   embed?: string;
   sql?: string;
 
+  compile(dialect?: Dialect, opts?: CompileOptions & { named?: false }): CompiledQuery;
+  compile(dialect: Dialect | undefined, opts: CompileOptions & { named: true }): NamedCompiledQuery;
   toString(opts?: QueryFragmentToStringOptions): string;
 }
 
@@ -120,40 +85,103 @@ abstract class QueryFragmentBase implements QueryFragment {
   statement: string = '';
   embed: string = '';
 
-  #compile(valueFn: (x: unknown) => string) {
+  #compile(dialect: Dialect, valueFn: (x: unknown, opts?: ValueOptions) => string) {
     return this.toString({
-      valueFn: (x, context) => {
+      valueFn: (x, context, opts) => {
         if (shouldIgnoreValue(context)) return '';
-        return valueFn(x);
+        return valueFn(x, opts);
       },
+      identFn: (x, context) => dialect.ident(String(x), context),
       context: {},
-      contextHandler: pgContextHandler,
+      contextHandler: dialect.contextHandler,
+      dialect,
     });
   }
 
+  /**
+   * Compile the fragment into a statement for the dialect
+   *
+   * With `{ named: true }`, values are bound by name, and `values` becomes an object.
+   * Values without a name are named as `p1`, `p2`, ...
+   *
+   * @example
+   *   sql`SELECT * FROM ${ident('t')} WHERE id = ${1}`.compile(mysqlDialect)
+   *     => { text: 'SELECT * FROM t WHERE id = ?', values: [1], embed: "SELECT * FROM t WHERE id = '1'" }
+   *
+   *   sql`SELECT * FROM t WHERE a = ${param('id', 1)} OR b = ${param('id', 1)}`.compile(mssqlDialect, { named: true })
+   *     => { text: 'SELECT * FROM t WHERE a = @id OR b = @id', values: { id: 1 }, ... }
+   *
+   *   sql`SELECT ${x}, ${x}`.compile(pgDialect, { dedupe: true })
+   *     => { text: 'SELECT $1, $1', values: [x], ... }
+   */
+  compile(dialect?: Dialect, opts?: CompileOptions & { named?: false }): CompiledQuery;
+  compile(dialect: Dialect | undefined, opts: CompileOptions & { named: true }): NamedCompiledQuery;
+  compile(dialect: Dialect = pgDialect, opts: CompileOptions = {}): CompiledQuery | NamedCompiledQuery {
+    const embed = this.#compile(dialect, (x, valueOpts) => valueOpts?.literal?.(x, dialect) ?? dialect.literal(x));
+
+    if (opts.named) {
+      const reuse = makePlaceholderCache(opts.dedupe);
+      const namedPlaceholder = dialect.namedPlaceholder ?? ((name: string) => ':' + name);
+
+      // explicit names are reserved first, so that the generated ones don't collide with them
+      const reserved = new Set<string>();
+      this.#compile(dialect, (_x, valueOpts) => (valueOpts?.name !== undefined && reserved.add(valueOpts.name), ''));
+
+      const values: Record<string, unknown> = {};
+      let idx = 0;
+      const text = this.#compile(dialect, (x, valueOpts) => {
+        let name = valueOpts?.name;
+        if (name === undefined) {
+          return reuse(x, valueOpts, () => {
+            do {
+              name = 'p' + ++idx;
+            } while (reserved.has(name));
+            values[name] = x;
+            return namedPlaceholder(name);
+          });
+        }
+        if (Object.prototype.hasOwnProperty.call(values, name) && !isSameValue(values[name], x)) {
+          throw new Error(`Parameter '${name}' is bound to different values.`);
+        }
+        values[name] = x;
+        return namedPlaceholder(name);
+      });
+      return { text, values, embed };
+    }
+
+    return { ...this.#bind(dialect, opts.dedupe), embed };
+  }
+
+  // binds the values by position
+  #bind(dialect: Dialect, dedupe?: boolean) {
+    const reuse = makePlaceholderCache(dedupe);
+    // `?` style placeholders can't be reused
+    const numbered = dialect.placeholder(1) !== dialect.placeholder(2);
+
+    const values: unknown[] = [];
+    const text = this.#compile(dialect, (x, valueOpts) => {
+      const make = () => dialect.placeholder(values.push(x));
+      return numbered ? reuse(x, valueOpts, make) : make();
+    });
+    return { text, values };
+  }
+
   constructor() {
     Object.defineProperties(this, {
       text: {
         enumerable: true,
-        get: () => {
-          let idx = 1;
-          return this.#compile(() => '$' + idx++);
-        },
+        get: () => this.#bind(pgDialect).text,
       },
 
       values: {
         enumerable: true,
-        get: () => {
-          const values: unknown[] = [];
-          this.#compile((x) => (values.push(x), ''));
-          return values;
-        },
+        get: () => this.#bind(pgDialect).values,
       },
 
       sql: {
         enumerable: false,
         get: () => {
-          return this.#compile(() => '?');
+          return this.#compile(pgDialect, () => '?');
         },
       },
 
@@ -161,14 +189,14 @@ abstract class QueryFragmentBase implements QueryFragment {
         enumerable: false,
         get: () => {
           let idx = 1;
-          return this.#compile(() => ':' + idx++);
+          return this.#compile(pgDialect, () => ':' + idx++);
         },
       },
 
       embed: {
         enumerable: true,
         get: () => {
-          return this.#compile((x) => pgString(x));
+          return this.#compile(pgDialect, (x, valueOpts) => valueOpts?.literal?.(x, pgDialect) ?? pgString(x));
         },
       },
     });
@@ -177,19 +205,59 @@ abstract class QueryFragmentBase implements QueryFragment {
   abstract toString(opts?: QueryFragmentToStringOptions): string;
 }
 
+// placeholders of the values to be reused, by the type; a placeholder can't be cast to different types
+function makePlaceholderCache(dedupe?: boolean) {
+  const reusable = new Map<string | undefined, Map<unknown, string>>();
+  return (x: unknown, valueOpts: ValueOptions | undefined, make: () => string) => {
+    if (!dedupe && !valueOpts?.shared) return make();
+    const placeholders = reusable.get(valueOpts?.type) ?? new Map<unknown, string>();
+    const placeholder = placeholders.get(x) ?? make();
+    placeholders.set(x, placeholder);
+    reusable.set(valueOpts?.type, placeholders);
+    return placeholder;
+  };
+}
+
+// whether the values are bound the same; e.g. equal arrays or dates
+function isSameValue(a: unknown, b: unknown) {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  const [x, y] = [pgPrepare(a), pgPrepare(b)];
+  if (x instanceof Uint8Array && y instanceof Uint8Array) {
+    return x.length === y.length && x.every((v, i) => v === y[i]);
+  }
+  return x === y;
+}
+
 class QueryFragmentValue extends QueryFragmentBase {
   #value: unknown;
+  #opts?: ValueOptions;
 
-  constructor(value: unknown) {
+  constructor(value: unknown, opts?: ValueOptions) {
     super();
     this.#value = value;
+    this.#opts = opts;
   }
 
   toString(opts?: QueryFragmentToStringOptions) {
-    return (opts?.valueFn ?? pgString)(this.#value, opts?.context);
+    const type = this.#opts?.type;
+    if (!opts?.valueFn) {
+      return castValue(this.#opts?.literal?.(this.#value, pgDialect) ?? pgString(this.#value, opts?.context), type);
+    }
+
+    const dialect = opts.dialect ?? pgDialect;
+    return castValue(opts.valueFn(this.#value, opts.context, this.#opts), type, dialect);
   }
 }
 
+function castValue(s: string, type?: string, dialect: Dialect = pgDialect) {
+  // nothing to cast; e.g. the value is in a comment
+  if (!s || !type) return s;
+  return dialect.cast ? dialect.cast(s, type) : `CAST(${s} AS ${type})`;
+}
+
 class QueryFragmentIdent extends QueryFragmentBase {
   #ident: string;
 
@@ -219,6 +287,20 @@ class QueryFragmentRawString extends QueryFragmentBase {
   }
 }
 
+// renders a fragment chosen by the dialect being compiled for
+class QueryFragmentDialectSwitch extends QueryFragmentBase {
+  #fn: (dialect: Dialect) => QueryFragment;
+
+  constructor(fn: (dialect: Dialect) => QueryFragment) {
+    super();
+    this.#fn = fn;
+  }
+
+  toString(opts?: QueryFragmentToStringOptions) {
+    return this.#fn(opts?.dialect ?? pgDialect).toString(opts);
+  }
+}
+
 export function isQueryFragment(x: unknown): x is QueryFragment {
   return x instanceof QueryFragmentBase;
 }
@@ -227,6 +309,10 @@ function makeIdent(name: string) {
   return new QueryFragmentIdent(name);
 }
 
+function makeDialectSwitch(fn: (dialect: Dialect) => QueryFragment) {
+  return new QueryFragmentDialectSwitch(fn);
+}
+
 function makeValue(x: unknown): QueryFragment | undefined {
   if (typeof x === 'undefined' || isQueryFragment(x)) return x;
   return new QueryFragmentValue(x);
@@ -338,11 +424,9 @@ export class QueryFragments extends QueryFragmentBase {
 }
 
 /**
- * SQL template tag
+ * SQL template tag (see `sql` for the one with builders attached)
  */
-export function sql(
-  ...args: [texts: TemplateStringsArray, ...values: unknown[]] | [...values: unknown[]]
-): QueryFragments {
+function sqlTag(...args: [texts: TemplateStringsArray, ...values: unknown[]] | [...values: unknown[]]): QueryFragments {
   let fragments: (QueryFragment | undefined)[];
   if (isQueryTemplateStyle(args)) {
     // sql`...` comes here
@@ -364,6 +448,102 @@ export function sql(
  */
 export const ident = makeIdent;
 
+/**
+ * Named value
+ *
+ * It's bound by name when the query is compiled with `{ named: true }`,
+ * and the same name is bound only once. The values of the same name have to be equal, e.g. equal arrays.
+ *
+ * Example:
+ *   sql`SELECT * FROM t WHERE owner = ${param('userId', 42)} OR author = ${param('userId', 42)}`
+ *     => SELECT * FROM t WHERE owner = :userId OR author = :userId  -- { userId: 42 }
+ */
+export function param(name: string, value: unknown) {
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+    throw new Error(`Invalid parameter name: '${name}'.`);
+  }
+  return new QueryFragmentValue(value, { name });
+}
+
+/**
+ * Shareable value
+ *
+ * The identical (===) shared values are bound only once, by `compile()` and by `.text` / `.values`,
+ * even without `{ dedupe: true }`.
+ *
+ * Example:
+ *   sql`SELECT ${shared(ids)} UNION SELECT ${shared(ids)}`.compile()
+ *     => SELECT $1 UNION SELECT $1
+ */
+export function shared(value: unknown) {
+  return new QueryFragmentValue(value, { shared: true });
+}
+
+export type TypeEncoder = {
+  // converts the value to be bound
+  encode?: (v: unknown) => unknown;
+  // literal for the embedded query; the dialect's one is used on undefined
+  literal?: (v: unknown, dialect: Dialect) => string | undefined;
+};
+
+const typeEncoders = new Map<string, TypeEncoder>();
+
+/**
+ * Register an encoder for the type used by `typed`
+ *
+ * Example:
+ *   registerTypeEncoder('money_cents', { encode: (v) => Math.round(Number(v) * 100) });
+ */
+export function registerTypeEncoder(type: string, encoder: TypeEncoder) {
+  typeEncoders.set(type.toLowerCase(), encoder);
+}
+
+registerTypeEncoder('bytea', {
+  literal: (v, dialect) => {
+    if (dialect.name !== 'postgres' || !(v instanceof Uint8Array)) return undefined;
+    return `'\\x${Array.from(v, (b) => b.toString(16).padStart(2, '0')).join('')}'`;
+  },
+});
+registerTypeEncoder('bigint', { encode: (v) => String(v) });
+registerTypeEncoder('int8', { encode: (v) => String(v) });
+registerTypeEncoder('uuid', {
+  encode: (v) => {
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(String(v))) {
+      throw new Error(`Invalid UUID: '${v}'.`);
+    }
+    return String(v);
+  },
+});
+for (const type of ['timestamptz', 'timestamp', 'date']) {
+  registerTypeEncoder(type, { encode: (v) => (v instanceof Date ? v.toISOString() : v) });
+}
+for (const type of ['json', 'jsonb']) {
+  registerTypeEncoder(type, { encode: (v) => JSON.stringify(v) });
+}
+
+/**
+ * Typed value; it's bound with a cast, and converted by the registered encoder
+ *
+ * Example:
+ *   sql`SELECT ${typed(new Date(), 'timestamptz')}`
+ *     => SELECT $1::timestamptz  -- text
+ *     => SELECT '2024-01-01T00:00:00.000Z'::timestamptz  -- embed
+ */
+export function typed(value: unknown, type: string) {
+  if (!/^[A-Za-z_][A-Za-z0-9_. ]*(\(\d+(,\s*\d+)?\))?(\[\])*$/.test(type)) {
+    throw new Error(`Invalid type name: '${type}'.`);
+  }
+
+  const encoder = typeEncoders.get(type.toLowerCase());
+  const encoded = encoder?.encode && value !== null && value !== undefined ? encoder.encode(value) : value;
+  return new QueryFragmentValue(encoded, { type, literal: encoder?.literal });
+}
+
+export const bytea = (value: Uint8Array | null) => typed(value, 'bytea');
+export const bigint = (value: bigint | number | string | null) => typed(value, 'bigint');
+export const uuid = (value: string | null) => typed(value, 'uuid');
+export const timestamptz = (value: Date | string | null) => typed(value, 'timestamptz');
+
 /**
  * Raw string injection
  */
@@ -400,6 +580,142 @@ export function json(...args: [...json: unknown[]] | [texts: TemplateStringsArra
   return new QueryFragments(fragments);
 }
 
+/**
+ * Operators for a field value in WHERE conditions
+ *
+ * Example:
+ *   WHERE({ age: { gte: 18, lt: 65 }, deleted_at: { not: null } })
+ *     => WHERE ((age >= $1) AND (age < $2) AND (deleted_at IS NOT NULL))
+ */
+export type FieldOperators<T = unknown> = {
+  eq?: T | null;
+  ne?: T | null;
+  not?: T | null;
+  gt?: T;
+  gte?: T;
+  lt?: T;
+  lte?: T;
+  in?: T[];
+  notIn?: T[];
+  like?: string;
+  notLike?: string;
+  ilike?: string;
+  notIlike?: string;
+  contains?: T | T[];
+  containedBy?: T | T[];
+  overlaps?: T[];
+  between?: [T, T];
+  notBetween?: [T, T];
+};
+
+type OperatorBuilder = (key: QueryFragment, val: unknown) => QueryFragment;
+
+function requireArray(op: string, val: unknown) {
+  if (!Array.isArray(val)) throw new Error(`Operator '${op}' requires an array.`);
+  return val;
+}
+
+function requirePair(op: string, val: unknown) {
+  if (!Array.isArray(val) || val.length !== 2) throw new Error(`Operator '${op}' requires a pair of values.`);
+  return val as [unknown, unknown];
+}
+
+// SQL Server has no boolean literals
+function booleanLiteral(value: boolean) {
+  return makeDialectSwitch((dialect) =>
+    dialect.name === 'mssql' ? raw(value ? '1 = 1' : '1 = 0') : raw(value ? 'TRUE' : 'FALSE'),
+  );
+}
+
+// = ANY ($1) binds the array as a parameter; the other dialects take a list of the values
+function inList(key: QueryFragment, values: unknown[], not = false) {
+  if (!values.length) return booleanLiteral(not);
+
+  return makeDialectSwitch((dialect) => {
+    switch (dialect.name) {
+      case 'mssql':
+      case 'mysql':
+      case 'sqlite':
+        return sql`${key} ${raw(not ? 'NOT IN' : 'IN')} ${sql(...values).setSewingPattern('(', ', ', ')')}`;
+    }
+    return not ? sql`${key} <> ALL (${values})` : sql`${key} = ANY (${values})`;
+  });
+}
+
+// operators of PostgreSQL
+function pgOperator(op: string, build: OperatorBuilder): OperatorBuilder {
+  return (k, v) =>
+    makeDialectSwitch((dialect) => {
+      switch (dialect.name) {
+        case 'mssql':
+        case 'mysql':
+        case 'sqlite':
+          throw new Error(`Operator '${op}' is not supported by ${dialect.name}.`);
+      }
+      return build(k, v);
+    });
+}
+
+const fieldOperators: Record<keyof FieldOperators, OperatorBuilder> = {
+  eq: (k, v) => (v === null ? sql`${k} IS NULL` : sql`${k} = ${v}`),
+  ne: (k, v) => (v === null ? sql`${k} IS NOT NULL` : sql`${k} <> ${v}`),
+  not: (k, v) => (v === null ? sql`${k} IS NOT NULL` : sql`${k} <> ${v}`),
+  gt: (k, v) => sql`${k} > ${v}`,
+  gte: (k, v) => sql`${k} >= ${v}`,
+  lt: (k, v) => sql`${k} < ${v}`,
+  lte: (k, v) => sql`${k} <= ${v}`,
+  in: (k, v) => inList(k, requireArray('in', v)),
+  notIn: (k, v) => inList(k, requireArray('notIn', v), true),
+  like: (k, v) => sql`${k} LIKE ${v}`,
+  notLike: (k, v) => sql`${k} NOT LIKE ${v}`,
+  ilike: pgOperator('ilike', (k, v) => sql`${k} ILIKE ${v}`),
+  notIlike: pgOperator('notIlike', (k, v) => sql`${k} NOT ILIKE ${v}`),
+  contains: pgOperator('contains', (k, v) => sql`${k} @> ${v}`),
+  containedBy: pgOperator('containedBy', (k, v) => sql`${k} <@ ${v}`),
+  overlaps: pgOperator('overlaps', (k, v) => sql`${k} && ${v}`),
+  between: (k, v) => {
+    const [a, b] = requirePair('between', v);
+    return sql`${k} BETWEEN ${a} AND ${b}`;
+  },
+  notBetween: (k, v) => {
+    const [a, b] = requirePair('notBetween', v);
+    return sql`${k} NOT BETWEEN ${a} AND ${b}`;
+  },
+};
+
+// a plain object that consists of operators only, e.g. { gte: 1, lt: 10 }
+function isFieldOperators(x: unknown): x is FieldOperators {
+  if (typeof x !== 'object' || x === null || Array.isArray(x)) return false;
+  const proto = Object.getPrototypeOf(x);
+  if (proto !== Object.prototype && proto !== null) return false;
+
+  const keys = Object.keys(x);
+  return keys.length > 0 && keys.every((k) => Object.prototype.hasOwnProperty.call(fieldOperators, k));
+}
+
+function mapFieldKeys(fv: FieldValues, toColumn: (key: string) => string): FieldValues {
+  return Object.fromEntries(Object.entries(fv).map(([k, v]) => [toColumn(k), v]));
+}
+
+/**
+ * Apply the key transform to the field names of FieldValues and WHERE conditions
+ *
+ * Example:
+ *   WHERE(mapKeys({ createdAt: { gte: since } }, 'snake_case'))
+ *     => WHERE ((created_at >= $1))
+ */
+export function mapKeys<T extends WhereArg | FieldValues[]>(arg: T, keyTransform?: KeyTransformOption): T {
+  const toColumn = resolveKeyTransform(keyTransform)?.toColumn;
+  if (!toColumn) return arg;
+
+  const map = (x: unknown): unknown => {
+    if (Array.isArray(x)) return x.map(map);
+    if (typeof x !== 'object' || x === null || isQueryFragment(x) || isTable(x)) return x;
+    return mapFieldKeys(x as FieldValues, toColumn);
+  };
+  return map(arg) as T;
+}
+
 export function buildClauses(...args: WhereArg[]) {
   const clauses = new QueryFragments();
 
@@ -422,6 +738,9 @@ export function buildClauses(...args: WhereArg[]) {
       return;
     }
 
+    // the table only gives the types, e.g. WHERE(users, { ... })
+    if (isTable(val)) return;
+
     if (typeof val === 'object') {
       for (const key in val) {
         if (val[key] === undefined) continue;
@@ -436,16 +755,21 @@ export function buildClauses(...args: WhereArg[]) {
           continue;
         }
 
-        if (Array.isArray(val[key])) {
-          const arrayValues = val[key] as unknown[];
-          if (arrayValues.length === 0) {
-            clauses.push(sql`FALSE`);
-          } else {
-            clauses.push(sql`${makeIdent(key)} = ANY (${arrayValues})`);
+        if (isFieldOperators(val[key])) {
+          const ops = val[key] as Record<keyof FieldOperators, unknown>;
+          for (const op in ops) {
+            const opValue = ops[op as keyof FieldOperators];
+            if (opValue === undefined) continue;
+            clauses.push(fieldOperators[op as keyof FieldOperators](makeIdent(key), opValue));
           }
           continue;
         }
 
+        if (Array.isArray(val[key])) {
+          clauses.push(inList(makeIdent(key), val[key] as unknown[]));
+          continue;
+        }
+
         clauses.push(sql`${makeIdent(key)} = ${val[key]}`);
       }
       return;
@@ -465,7 +789,22 @@ export function AND(...fv: WhereArg[]) {
   return buildClauses(fv).setSewingPattern('((', ') AND (', '))', '');
 }
 
-export function WHERE(...fv: WhereArg[]) {
+// the field names of the conditions; they are the columns of the table
+function whereKeys(where: WhereArg | Table): string[] {
+  if (Array.isArray(where)) return where.flatMap(whereKeys);
+  if (typeof where !== 'object' || where === null || isQueryFragment(where) || isTable(where)) return [];
+  return Object.keys(where).filter((k) => where[k] !== undefined);
+}
+
+function assertWhereColumns(table: string | Table, where: WhereArg | (WhereArg | Table)[]) {
+  assertColumns(table, whereKeys(where));
+}
+
+export function WHERE<T extends Table>(table: T, ...fv: WhereArgOf<T>[]): QueryFragments;
+// a table must be checked by the overload above
+export function WHERE<A extends WhereArg[]>(...fv: A & (A[0] extends Table ? never : unknown)): QueryFragments;
+export function WHERE(...fv: (WhereArg | Table)[]) {
+  if (isTable(fv[0])) assertWhereColumns(fv[0], fv.slice(1));
   return buildClauses(fv).setSewingPattern('WHERE ((', ') AND (', '))', '');
 }
 
@@ -473,7 +812,11 @@ export function isWhereEmpty(...fv: WhereArg[]) {
   return buildClauses(fv).text.length === 0;
 }
 
-export function WHERE_OR(...fv: WhereArg[]) {
+export function WHERE_OR<T extends Table>(table: T, ...fv: WhereArgOf<T>[]): QueryFragments;
+// a table must be checked by the overload above
+export function WHERE_OR<A extends WhereArg[]>(...fv: A & (A[0] extends Table ? never : unknown)): QueryFragments;
+export function WHERE_OR(...fv: (WhereArg | Table)[]) {
+  if (isTable(fv[0])) assertWhereColumns(fv[0], fv.slice(1));
   return buildClauses(fv).setSewingPattern('WHERE ((', ') OR (', '))', '');
 }
 
@@ -485,16 +828,260 @@ export function UNION(...fv: unknown[]) {
   return raw(...fv).join(' UNION ');
 }
 
-export function LIMIT(limit: number | string | null | undefined) {
-  if (limit == null) return sql``;
-  limit = Number(limit);
-  return limit >= 0 ? sql`LIMIT ${limit}` : sql``;
+export type CommonTableExpression = {
+  query: QueryFragment;
+  columns?: string[];
+  // MATERIALIZED / NOT MATERIALIZED
+  materialized?: boolean;
+};
+
+export type WithOptions = {
+  recursive?: boolean;
+};
+
+/**
+ * WITH clause (Common Table Expressions)
+ *
+ * Example:
+ *   WITH({ active: sql`SELECT * FROM users WHERE active = ${true}` })
+ *     => WITH active AS (SELECT * FROM users WHERE active = $1)
+ *
+ *   WITH({ t: { query: sql`...`, columns: ['n'], materialized: true } }, { recursive: true })
+ *     => WITH RECURSIVE t (n) AS MATERIALIZED (...)
+ */
+export function WITH(ctes: Record<string, QueryFragment | CommonTableExpression>, opts: WithOptions = {}) {
+  const list = Object.entries(ctes).map(([name, cte]) => {
+    if (!name) throw new Error('WITH requires a name for each query.');
+
+    const { query, columns, materialized } = isQueryFragment(cte) ? { query: cte } : cte;
+    const COLUMNS = sql(...(columns ?? []).map(makeIdent)).setSewingPattern('(', ', ', ')');
+    const MATERIALIZED =
+      materialized === undefined ? undefined : raw(materialized ? 'MATERIALIZED' : 'NOT MATERIALIZED');
+
+    return sql(makeIdent(name), COLUMNS, raw('AS'), MATERIALIZED, sql`(${query})`).join(' ');
+  });
+
+  return sql(...list).setSewingPattern(opts.recursive ? 'WITH RECURSIVE ' : 'WITH ', ', ');
+}
+
+export function WITH_RECURSIVE(ctes: Record<string, QueryFragment | CommonTableExpression>) {
+  return WITH(ctes, { recursive: true });
+}
+
+function toRowCount(n: number | string | null | undefined) {
+  if (n == null) return undefined;
+  n = Number(n);
+  return n >= 0 ? n : undefined;
+}
+
+/**
+ * LIMIT clause; pass `offset` as well to get the right order for the dialect
+ *
+ * Example:
+ *   LIMIT(10, 20)
+ *     => LIMIT $1 OFFSET $2 (PostgreSQL, MySQL, SQLite)
+ *     => OFFSET @p2 ROWS FETCH NEXT @p1 ROWS ONLY (SQL Server)
+ */
+export function LIMIT(limit: number | string | null | undefined, offset?: number | string | null) {
+  const l = toRowCount(limit);
+  const o = toRowCount(offset);
+  if (l === undefined && o === undefined) return sql``;
+
+  return sql(
+    makeDialectSwitch((dialect) => {
+      switch (dialect.name) {
+        case 'mssql':
+          return sql(
+            o === undefined ? sql`OFFSET 0 ROWS` : sql`OFFSET ${o} ROWS`,
+            l === undefined ? undefined : sql`FETCH NEXT ${l} ROWS ONLY`,
+          ).join(' ');
+
+        case 'mysql':
+        case 'sqlite':
+          // OFFSET cannot be used without LIMIT
+          if (l === undefined) {
+            return sql`LIMIT ${raw(dialect.name === 'mysql' ? '18446744073709551615' : '-1')} OFFSET ${o}`;
+          }
+      }
+
+      return sql(l === undefined ? undefined : sql`LIMIT ${l}`, o === undefined ? undefined : sql`OFFSET ${o}`).join(
+        ' ',
+      );
+    }),
+  );
 }
 
+/**
+ * OFFSET clause; MySQL and SQLite need a LIMIT before it, and SQL Server needs `LIMIT(limit, offset)` instead
+ *
+ * Example:
+ *   sql`${LIMIT(10)} ${OFFSET(20)}`
+ *     => LIMIT $1 OFFSET $2
+ */
 export function OFFSET(offset: number | string | null | undefined) {
-  if (offset == null) return sql``;
-  offset = Number(offset);
-  return offset >= 0 ? sql`OFFSET ${offset}` : sql``;
+  const o = toRowCount(offset);
+  if (o === undefined) return sql``;
+
+  return sql(
+    makeDialectSwitch((dialect) => {
+      // a separate LIMIT would be FETCH NEXT before OFFSET, which is invalid
+      if (dialect.name === 'mssql') {
+        throw new Error(`OFFSET is not supported by ${dialect.name}; use LIMIT(limit, offset) instead.`);
+      }
+      return sql`OFFSET ${o}`;
+    }),
+  );
+}
+
+export type OrderBySpec = Record<string, string | undefined> | [column: string, direction?: string][];
+
+export type OrderByOptions = {
+  // sortable columns; any other column throws
+  allow?: string[];
+};
+
+const SORT_DIRECTION = /^(asc|desc)?(?:\s*\bnulls\s+(first|last))?$/i;
+
+type SortKey = { column: string; direction?: 'ASC' | 'DESC'; nulls?: 'FIRST' | 'LAST' };
+
+function parseOrderBySpec(spec: OrderBySpec, opts: OrderByOptions = {}): SortKey[] {
+  const entries = Array.isArray(spec)
+    ? spec.map(([column, direction]) => [column, direction ?? ''] as const)
+    : Object.entries(spec).filter((entry): entry is [string, string] => entry[1] !== undefined);
+
+  return entries.map(([column, direction]) => {
+    if (opts.allow && !opts.allow.includes(column)) {
+      throw new Error(`Column '${column}' is not sortable.`);
+    }
+
+    const m = direction.trim().match(SORT_DIRECTION);
+    if (!m) {
+      throw new Error(`Invalid sort direction: '${direction}'.`);
+    }
+
+    const [, dir, nulls] = m;
+    return {
+      column,
+      direction: dir?.toUpperCase() as SortKey['direction'],
+      nulls: nulls?.toUpperCase() as SortKey['nulls'],
+    };
+  });
+}
+
+function buildOrderByItems(spec: OrderBySpec, opts: OrderByOptions = {}) {
+  return parseOrderBySpec(spec, opts).map(({ column, direction, nulls }) => {
+    const suffix = (direction ? ' ' + direction : '') + (nulls ? ' NULLS ' + nulls : '');
+    return sql`${makeIdent(column)}${raw(suffix)}`;
+  });
+}
+
+/**
+ * ORDER BY clause
+ *
+ * Directions are validated, so they can come from a request as is.
+ *
+ * Example:
+ *   ORDER_BY({ created_at: 'desc', name: 'asc nulls last' }, { allow: ['created_at', 'name'] })
+ *     => ORDER BY created_at DESC, name ASC NULLS LAST
+ */
+export function ORDER_BY(spec: OrderBySpec | null | undefined, opts?: OrderByOptions) {
+  if (spec == null) return sql``;
+  return sql(...buildOrderByItems(spec, opts)).setSewingPattern('ORDER BY ', ', ');
+}
+
+export type KeysetCursor = {
+  // whether the cursor points to the previous page
+  backward: boolean;
+  values: unknown[];
+};
+
+const INVALID_CURSOR_ERROR = 'Invalid cursor.';
+
+export function encodeCursor(cursor: KeysetCursor): string {
+  const bytes = new TextEncoder().encode(JSON.stringify([cursor.backward ? 1 : 0, cursor.values]));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+export function decodeCursor(cursor: string): KeysetCursor {
+  try {
+    const binary = atob(cursor.replace(/-/g, '+').replace(/_/g, '/'));
+    const [backward, values] = JSON.parse(new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0))));
+    if (!Array.isArray(values)) throw new Error(INVALID_CURSOR_ERROR);
+    return { backward: !!backward, values };
+  } catch (e) {
+    throw new Error(INVALID_CURSOR_ERROR, { cause: e });
+  }
+}
+
+// the key in the result row; `t.col` is returned as `col`
+function rowKeyOf(column: string) {
+  return column.slice(column.lastIndexOf('.') + 1);
+}
+
+/**
+ * Keyset (cursor) pagination
+ *
+ * Returns a condition to be used in WHERE, and ORDER BY for the page.
+ * Pages backward when the cursor is made by `cursorOf(row, true)`.
+ *
+ * Example:
+ *   const keyset = buildKeyset({ created_at: 'desc', id: 'desc' }, cursor);
+ *   sql`SELECT * FROM t ${WHERE({ active: true }, keyset.where)} ${keyset.orderBy} ${LIMIT(20)}`
+ *     => SELECT * FROM t WHERE ((active = $1) AND ((created_at, id) < ($2, $3))) ORDER BY created_at DESC, id DESC LIMIT $4
+ */
+export function buildKeyset(spec: OrderBySpec, cursor?: string | null, opts?: OrderByOptions) {
+  const keys = parseOrderBySpec(spec, opts);
+  if (!keys.length) {
+    throw new Error('buildKeyset requires at least one sort key.');
+  }
+  if (keys.some((k) => k.nulls)) {
+    throw new Error('buildKeyset does not support NULLS ordering.');
+  }
+
+  const decoded = cursor ? decodeCursor(cursor) : undefined;
+  if (decoded && decoded.values.length !== keys.length) {
+    throw new Error(INVALID_CURSOR_ERROR);
+  }
+  const backward = decoded?.backward ?? false;
+
+  // the order to scan; reversed on backward
+  const scan = keys.map(({ column, direction }) => ({ column, desc: (direction === 'DESC') !== backward }));
+
+  let where: QueryFragment = sql``;
+  if (decoded) {
+    const { values } = decoded;
+    if (scan.every((k) => k.desc === scan[0].desc)) {
+      // (a, b) > ($1, $2)
+      const columns = sql(...scan.map((k) => makeIdent(k.column))).setSewingPattern('(', ', ', ')');
+      where = sql`${columns} ${raw(scan[0].desc ? '<' : '>')} ${sql(...values).setSewingPattern('(', ', ', ')')}`;
+    } else {
+      // (a > $1) OR (a = $1 AND b < $2) for the mixed directions
+      where = OR(
+        scan.map((k, i) =>
+          AND(
+            scan.slice(0, i).map((prev, j) => sql`${makeIdent(prev.column)} = ${values[j]}`),
+            sql`${makeIdent(k.column)} ${raw(k.desc ? '<' : '>')} ${values[i]}`,
+          ),
+        ),
+      );
+    }
+  }
+
+  const orderBy = sql(...scan.map((k) => sql`${makeIdent(k.column)}${raw(k.desc ? ' DESC' : '')}`)).setSewingPattern(
+    'ORDER BY ',
+    ', ',
+  );
+
+  return {
+    where,
+    orderBy,
+    backward,
+    cursorOf: (row: Record<string, unknown>, backward = false) =>
+      encodeCursor({ backward, values: keys.map((k) => row[rowKeyOf(k.column)]) }),
+  };
 }
 
 type ExtractedFieldRows = { keys?: string[]; rows: unknown[][] };
@@ -550,6 +1137,57 @@ function buildKeyValues(input: FieldValues[] | FieldValues | (FieldValues | unkn
   return { keys, fields, VALUES: sql`VALUES ${values}` };
 }
 
+// INSERT INTO t (a, b) SELECT * FROM UNNEST($1::int[], $2::text[])
+function buildUnnestValues(table: string | Table, input: FieldValues[] | FieldValues, opts: BuildOptions) {
+  const { keys, rows } = extractFieldRows(input);
+  if (!keys) {
+    throw new Error('UNNEST requires FieldValues to be objects.');
+  }
+
+  const toColumn = resolveKeyTransform(opts.keyTransform)?.toColumn;
+  const hints = typeof opts.unnest === 'object' ? opts.unnest : {};
+  const types = toColumn ? mapFieldKeys(hints, toColumn) : hints;
+
+  const columns = keys.map((key, idx) => {
+    const spec = typeof table === 'string' ? undefined : table.columns[key];
+    const type = (types[key] as string | undefined) ?? (spec && columnTypeOf(spec));
+    if (!type) {
+      throw new Error(`UNNEST requires the type of column '${key}'.`);
+    }
+    if (type.endsWith('[]')) {
+      throw new Error(`UNNEST does not support the array column '${key}'.`);
+    }
+
+    const encoder = typeEncoders.get(type.toLowerCase());
+    const values = rows.map((row) => {
+      const v = row[idx];
+      if (isQueryFragment(v)) {
+        throw new Error(`UNNEST does not support the QueryFragment value of column '${key}'.`);
+      }
+      return encoder?.encode && v !== null && v !== undefined ? encoder.encode(v) : v;
+    });
+    return typed(values, `${type}[]`);
+  });
+
+  const fields = sql(...keys.map(makeIdent)).setSewingPattern('(', ', ', ')');
+  const VALUES = makeDialectSwitch((dialect) => {
+    switch (dialect.name) {
+      // no array parameters to unnest
+      case 'mssql':
+      case 'mysql':
+      case 'sqlite':
+        throw new Error(`UNNEST is not supported by ${dialect.name}.`);
+    }
+    return sql`SELECT * FROM UNNEST(${sql(...columns).join(', ')})`;
+  });
+  return { keys, fields, VALUES };
+}
+
+function buildRows(table: string | Table, fvs: FieldValues[] | FieldValues, opts: BuildOptions) {
+  const input = mapKeys(fvs, opts.keyTransform);
+  return opts.unnest ? buildUnnestValues(table, input, opts) : buildKeyValues(input);
+}
+
 export function buildKeys(fvs: FieldValues[] | FieldValues): QueryFragments {
   const { fields } = buildKeyValues(fvs);
   if (!fields) {
@@ -562,19 +1200,80 @@ export function buildValues(fvs: (FieldValues | unknown[])[]) {
   return buildKeyValues(fvs).VALUES;
 }
 
-export function buildInsert(table: string, fvs: FieldValues[] | FieldValues, appendix?: string | QueryFragment) {
-  const { fields, VALUES } = buildKeyValues(fvs);
-  if (!fields) {
+// RETURNING clause, and OUTPUT clause for SQL Server, which goes before VALUES / WHERE; the other one is empty
+function buildReturning(table: string | Table, opts: BuildOptions, prefix: 'inserted' | 'deleted' = 'inserted') {
+  const { returning } = opts;
+  if (!returning?.length) return {};
+
+  const toColumn = resolveKeyTransform(opts.keyTransform)?.toColumn;
+  const columns = returning === '*' ? undefined : toColumn ? returning.map(toColumn) : [...returning];
+  if (columns) assertColumns(table, columns);
+
+  const list = (prefix?: string) =>
+    columns
+      ? sql(...columns.map((k) => (prefix ? sql`${raw(prefix)}.${makeIdent(k)}` : makeIdent(k)))).join(', ')
+      : raw(prefix ? `${prefix}.*` : '*');
+
+  return {
+    RETURNING: makeDialectSwitch((dialect) => {
+      switch (dialect.name) {
+        case 'mssql':
+          return sql``;
+        case 'mysql':
+          throw new Error(`RETURNING is not supported by ${dialect.name}.`);
+      }
+      return sql`RETURNING ${list()}`;
+    }),
+    OUTPUT: makeDialectSwitch((dialect) => (dialect.name === 'mssql' ? sql`OUTPUT ${list(prefix)}` : sql``)),
+  };
+}
+
+export function buildInsert<T extends string | Table>(
+  table: T,
+  fvs: FieldValuesOf<T>[] | FieldValuesOf<T>,
+  appendix?: string | QueryFragment,
+  opts?: BuildOptions,
+): QueryFragments;
+export function buildInsert(
+  table: string | Table,
+  fvs: FieldValues[] | FieldValues,
+  appendix?: string | QueryFragment,
+  opts: BuildOptions = {},
+) {
+  const { keys, fields, VALUES } = buildRows(table, fvs, opts);
+  if (!keys || !fields) {
     throw new Error('buildInsert requires FieldValues to be objects.');
   }
+  assertColumns(table, keys);
 
-  return sql`INSERT INTO ${makeIdent(table)} ${fields} ${VALUES}`.append(appendix).join(' ');
+  const { RETURNING, OUTPUT } = buildReturning(table, opts);
+  return sql(sql`INSERT INTO ${makeIdent(tableName(table))} ${fields}`, OUTPUT, VALUES)
+    .append(appendix, RETURNING)
+    .join(' ');
 }
 
-export function buildUpdate(table: string, fv: FieldValues, where?: WhereArg, appendix?: string | QueryFragment) {
+export function buildUpdate<T extends string | Table>(
+  table: T,
+  fv: FieldValuesOf<T>,
+  where?: WhereArgOf<T>,
+  appendix?: string | QueryFragment,
+  opts?: BuildOptions,
+): QueryFragments;
+export function buildUpdate(
+  table: string | Table,
+  fv: FieldValues,
+  where?: WhereArg,
+  appendix?: string | QueryFragment,
+  opts: BuildOptions = {},
+) {
   const pairs = new QueryFragments();
   let hasAssignments = false;
 
+  fv = mapKeys(fv, opts.keyTransform);
+  where = mapKeys(where, opts.keyTransform);
+  assertColumns(table, Object.keys(fv));
+  assertWhereColumns(table, where);
+
   for (const k in fv) {
     const val = fv[k];
     if (val === undefined) continue;
@@ -591,46 +1290,377 @@ export function buildUpdate(table: string, fv: FieldValues, where?: WhereArg, ap
     throw new Error(UPDATE_ALL_WITHOUT_FORCE_ERROR);
   }
 
-  return sql`UPDATE ${makeIdent(table)} SET ${pairs.join(', ')} ${WHERE(where)}`.append(appendix).join(' ');
+  const { RETURNING, OUTPUT } = buildReturning(table, opts);
+  return sql(sql`UPDATE ${makeIdent(tableName(table))} SET ${pairs.join(', ')}`, OUTPUT, WHERE(where))
+    .append(appendix, RETURNING)
+    .join(' ');
 }
 
-export function buildDelete(table: string, where?: WhereArg, appendix?: string | QueryFragment) {
+export function buildDelete<T extends string | Table>(
+  table: T,
+  where?: WhereArgOf<T>,
+  appendix?: string | QueryFragment,
+  opts?: BuildOptions,
+): QueryFragments;
+export function buildDelete(
+  table: string | Table,
+  where?: WhereArg,
+  appendix?: string | QueryFragment,
+  opts: BuildOptions = {},
+) {
+  where = mapKeys(where, opts.keyTransform);
   if (isWhereEmpty(where)) {
     throw new Error(DELETE_ALL_WITHOUT_FORCE_ERROR);
   }
+  assertWhereColumns(table, where);
 
-  return sql`DELETE FROM ${makeIdent(table)} ${WHERE(where)}`.append(appendix).join(' ');
+  const { RETURNING, OUTPUT } = buildReturning(table, opts, 'deleted');
+  return sql(sql`DELETE FROM ${makeIdent(tableName(table))}`, OUTPUT, WHERE(where))
+    .append(appendix, RETURNING)
+    .join(' ');
+}
+
+export type UpsertOptions<K extends string = string, W = WhereArg> = {
+  // conflict target; columns of a unique index, or a constraint name
+  keys?: K[];
+  constraint?: string;
+  // predicate of a partial unique index, e.g. ON CONFLICT (a) WHERE deleted_at IS NULL
+  where?: W;
+  // columns to be updated; all the inserted columns except the conflict keys by default
+  update?: K[];
+  // columns not to be updated
+  exclude?: K[];
+  // custom update expressions, e.g. { count: sql`t.count + EXCLUDED.count` }
+  set?: { [X in K]?: unknown };
+  // DO UPDATE ... WHERE guard
+  updateWhere?: W;
+  // DO NOTHING instead of DO UPDATE
+  doNothing?: boolean;
+};
+
+function unsupportedUpsertOption(option: string, dialect: Dialect) {
+  return new Error(`Upsert option '${option}' is not supported by ${dialect.name}.`);
 }
 
+/**
+ * Upsert builder
+ *
+ * Example:
+ *   buildUpsert('t', { id: 1, count: 1 }, ['id'])
+ *     => INSERT INTO t (id, count) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET count = EXCLUDED.count
+ *
+ *   buildUpsert('t', { id: 1, count: 1 }, { constraint: 't_pkey', set: { count: sql`t.count + EXCLUDED.count` } })
+ *     => INSERT INTO t (id, count) VALUES ($1, $2) ON CONFLICT ON CONSTRAINT t_pkey DO UPDATE SET count = t.count + EXCLUDED.count
+ */
+export function buildUpsert<T extends string | Table>(
+  table: T,
+  fvs: FieldValuesOf<T>[] | FieldValuesOf<T>,
+  onConflict: ColumnOf<T>[] | UpsertOptions<ColumnOf<T>, WhereArgOf<T>>,
+  appendix?: string | QueryFragment,
+  opts?: BuildOptions,
+): QueryFragments;
 export function buildUpsert(
-  table: string,
+  table: string | Table,
   fvs: FieldValues[] | FieldValues,
-  onConflictKeys: string[],
+  onConflict: string[] | UpsertOptions,
   appendix?: string | QueryFragment,
+  opts: BuildOptions = {},
 ) {
-  if (!onConflictKeys.length) {
+  const conflict: UpsertOptions = Array.isArray(onConflict) ? { keys: onConflict } : onConflict;
+  const { constraint, doNothing } = conflict;
+
+  if (conflict.keys?.length && constraint) {
+    throw new Error('buildUpsert requires either conflict keys or a constraint.');
+  }
+  if (!conflict.keys?.length && !constraint && !doNothing) {
     throw new Error('buildUpsert requires at least one conflict key.');
   }
+  if (constraint && !isWhereEmpty(conflict.where)) {
+    // ON CONFLICT ON CONSTRAINT takes no index predicate
+    throw new Error('buildUpsert requires conflict keys for where, not a constraint.');
+  }
+
+  const toColumn = resolveKeyTransform(opts.keyTransform)?.toColumn ?? ((k: string) => k);
+  const conflictKeys = (conflict.keys ?? []).map(toColumn);
 
-  const { keys, fields, VALUES } = buildKeyValues(fvs);
+  const { keys, fields, VALUES } = buildRows(table, fvs, opts);
   if (!keys || !fields) {
     throw new Error('buildUpsert requires FieldValues to be objects.');
   }
 
-  const ON_CONFLICT = sql(...onConflictKeys.map(makeIdent)).setSewingPattern('ON CONFLICT (', ', ', ')');
-  const mutableKeys = keys.filter((x) => !onConflictKeys.includes(x));
+  const set = Object.entries(mapKeys(conflict.set ?? {}, opts.keyTransform)).filter(([, v]) => v !== undefined);
+  const excludeKeys = [...(conflict.exclude ?? []).map(toColumn), ...set.map(([k]) => k)];
+  const updateKeys = conflict.update?.map(toColumn) ?? keys.filter((x) => !conflictKeys.includes(x));
+  const mutableKeys = doNothing ? [] : updateKeys.filter((x) => !excludeKeys.includes(x));
+  const assignments = doNothing ? [] : set;
 
-  const DO_ACTION =
-    mutableKeys.length === 0
-      ? sql`DO NOTHING`
-      : sql(...mutableKeys.map((k) => sql`${ident(k)} = EXCLUDED.${ident(k)}`)).setSewingPattern(
-          'DO UPDATE SET ',
-          ', ',
-        );
+  assertColumns(table, [...keys, ...conflictKeys, ...updateKeys, ...excludeKeys]);
 
-  return sql`INSERT INTO ${makeIdent(table)} ${fields} ${VALUES} ${ON_CONFLICT} ${DO_ACTION}`
-    .append(appendix)
-    .join(' ');
+  // they would be updated to the defaults
+  const uninserted = mutableKeys.find((k) => !keys.includes(k));
+  if (uninserted !== undefined) {
+    throw new Error(`buildUpsert cannot update the column '${uninserted}' that is not inserted.`);
+  }
+
+  const targetWhere = mapKeys(conflict.where, opts.keyTransform);
+  const updateWhere = mapKeys(conflict.updateWhere, opts.keyTransform);
+  assertWhereColumns(table, [targetWhere, updateWhere]);
+  const { RETURNING, OUTPUT } = buildReturning(table, opts);
+
+  return sql(
+    makeDialectSwitch((dialect) => {
+      switch (dialect.name) {
+        case 'mysql': {
+          if (opts.unnest) throw unsupportedUpsertOption('unnest', dialect);
+          if (constraint) throw unsupportedUpsertOption('constraint', dialect);
+          if (!isWhereEmpty(targetWhere)) throw unsupportedUpsertOption('where', dialect);
+          if (!isWhereEmpty(updateWhere)) throw unsupportedUpsertOption('updateWhere', dialect);
+
+          // MySQL has no conflict target; unique keys are used implicitly
+          const SET = [
+            ...mutableKeys.map((k) => sql`${makeIdent(k)} = VALUES(${makeIdent(k)})`),
+            ...assignments.map(([k, v]) => sql`${makeIdent(k)} = ${v}`),
+          ];
+          if (!SET.length) {
+            // no-op update for DO NOTHING
+            const k = conflictKeys[0] ?? keys[0];
+            SET.push(sql`${makeIdent(k)} = ${makeIdent(k)}`);
+          }
+          const ON_DUPLICATE_KEY = sql(...SET).setSewingPattern('ON DUPLICATE KEY UPDATE ', ', ');
+
+          return sql`INSERT INTO ${makeIdent(tableName(table))} ${fields} ${VALUES} ${ON_DUPLICATE_KEY}`
+            .append(appendix, RETURNING)
+            .join(' ');
+        }
+
+        case 'mssql': {
+          if (opts.unnest) throw unsupportedUpsertOption('unnest', dialect);
+          if (constraint) throw unsupportedUpsertOption('constraint', dialect);
+          if (!isWhereEmpty(targetWhere)) throw unsupportedUpsertOption('where', dialect);
+          if (!conflictKeys.length) throw new Error('buildUpsert requires conflict keys for mssql.');
+
+          const ON = sql(
+            ...conflictKeys.map((k) => sql`target.${makeIdent(k)} = source.${makeIdent(k)}`),
+          ).setSewingPattern('ON (', ' AND ', ')');
+          const SET = [
+            ...mutableKeys.map((k) => sql`${makeIdent(k)} = source.${makeIdent(k)}`),
+            ...assignments.map(([k, v]) => sql`${makeIdent(k)} = ${v}`),
+          ];
+          const GUARD = isWhereEmpty(updateWhere) ? undefined : sql`AND ${AND(updateWhere)}`;
+          const WHEN_MATCHED = SET.length
+            ? sql(raw('WHEN MATCHED'), GUARD, sql`THEN UPDATE SET ${sql(...SET).join(', ')}`).join(' ')
+            : undefined;
+          const WHEN_NOT_MATCHED = sql`WHEN NOT MATCHED THEN INSERT ${fields} VALUES ${sql(
+            ...keys.map((k) => sql`source.${makeIdent(k)}`),
+          ).setSewingPattern('(', ', ', ')')}`;
+
+          return sql`MERGE INTO ${makeIdent(tableName(table))} AS target USING (${VALUES}) AS source ${fields} ${ON}`
+            .append(WHEN_MATCHED, WHEN_NOT_MATCHED, appendix, OUTPUT)
+            .join(' ')
+            .suffix(';');
+        }
+      }
+
+      // PostgreSQL and SQLite
+      if (dialect.name === 'sqlite') {
+        if (opts.unnest) throw unsupportedUpsertOption('unnest', dialect);
+        if (constraint) throw unsupportedUpsertOption('constraint', dialect);
+      }
+      const excluded = dialect.name === 'sqlite' ? 'excluded' : 'EXCLUDED';
+      const TARGET = constraint
+        ? sql`ON CONSTRAINT ${makeIdent(constraint)}`
+        : sql(...conflictKeys.map(makeIdent)).setSewingPattern('(', ', ', ')');
+      const ON_CONFLICT = sql(raw('ON CONFLICT'), TARGET, WHERE(targetWhere)).join(' ');
+      const SET = [
+        ...mutableKeys.map((k) => sql`${makeIdent(k)} = ${raw(excluded)}.${makeIdent(k)}`),
+        ...assignments.map(([k, v]) => sql`${makeIdent(k)} = ${v}`),
+      ];
+      const DO_ACTION = SET.length
+        ? sql(sql(...SET).setSewingPattern('DO UPDATE SET ', ', '), WHERE(updateWhere)).join(' ')
+        : sql`DO NOTHING`;
+
+      return sql`INSERT INTO ${makeIdent(tableName(table))} ${fields} ${VALUES} ${ON_CONFLICT} ${DO_ACTION}`
+        .append(appendix, RETURNING)
+        .join(' ');
+    }),
+  );
+}
+
+type TableRef = string | QueryFragment | [table: string | QueryFragment, alias: string];
+type ColumnRef = string | QueryFragment;
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
+function makeTableRef(table: TableRef) {
+  const [name, alias] = Array.isArray(table) ? table : [table];
+  const ref = typeof name === 'string' ? makeIdent(name) : name;
+  return alias ? sql`${ref} AS ${makeIdent(alias)}` : ref;
+}
+
+function makeColumnRef(column: ColumnRef) {
+  if (typeof column !== 'string') return column;
+  if (column === '*') return makeRaw('*');
+  if (column.endsWith('.*')) return sql`${makeIdent(column.slice(0, -2))}.*`;
+  return makeIdent(column);
+}
+
+/**
+ * SELECT builder
+ *
+ * Each clause can be replaced (e.g. `where`) or appended (e.g. `andWhere`) independently.
+ */
+export class SelectBuilder extends QueryFragmentBase {
+  #distinct = false;
+  #columns: ColumnRef[] = [];
+  #from?: TableRef;
+  #joins: { table: TableRef; on?: WhereArg; type: JoinType }[] = [];
+  #where: WhereArg[] = [];
+  #groupBy: ColumnRef[] = [];
+  #having: WhereArg[] = [];
+  #orderBy: (ColumnRef | Record<string, string | undefined>)[] = [];
+  #limit?: number | string | null;
+  #offset?: number | string | null;
+
+  constructor(columns: ColumnRef[] = []) {
+    super();
+    this.#columns = [...columns];
+  }
+
+  distinct(distinct: boolean = true) {
+    this.#distinct = distinct;
+    return this;
+  }
+
+  columns(...columns: ColumnRef[]) {
+    this.#columns = columns;
+    return this;
+  }
+
+  addColumns(...columns: ColumnRef[]) {
+    this.#columns.push(...columns);
+    return this;
+  }
+
+  from(table: TableRef) {
+    this.#from = table;
+    return this;
+  }
+
+  join(table: TableRef, on?: WhereArg, type: JoinType = 'INNER') {
+    this.#joins.push({ table, on, type });
+    return this;
+  }
+
+  leftJoin(table: TableRef, on?: WhereArg) {
+    return this.join(table, on, 'LEFT');
+  }
+
+  clearJoins() {
+    this.#joins = [];
+    return this;
+  }
+
+  where(...where: WhereArg[]) {
+    this.#where = where;
+    return this;
+  }
+
+  andWhere(...where: WhereArg[]) {
+    this.#where.push(...where);
+    return this;
+  }
+
+  groupBy(...columns: ColumnRef[]) {
+    this.#groupBy = columns;
+    return this;
+  }
+
+  addGroupBy(...columns: ColumnRef[]) {
+    this.#groupBy.push(...columns);
+    return this;
+  }
+
+  having(...having: WhereArg[]) {
+    this.#having = having;
+    return this;
+  }
+
+  andHaving(...having: WhereArg[]) {
+    this.#having.push(...having);
+    return this;
+  }
+
+  orderBy(...columns: (ColumnRef | Record<string, string | undefined>)[]) {
+    this.#orderBy = columns;
+    return this;
+  }
+
+  addOrderBy(...columns: (ColumnRef | Record<string, string | undefined>)[]) {
+    this.#orderBy.push(...columns);
+    return this;
+  }
+
+  limit(limit: number | string | null | undefined) {
+    this.#limit = limit;
+    return this;
+  }
+
+  offset(offset: number | string | null | undefined) {
+    this.#offset = offset;
+    return this;
+  }
+
+  clone() {
+    const copy = new SelectBuilder(this.#columns);
+    copy.#distinct = this.#distinct;
+    copy.#from = this.#from;
+    copy.#joins = [...this.#joins];
+    copy.#where = [...this.#where];
+    copy.#groupBy = [...this.#groupBy];
+    copy.#having = [...this.#having];
+    copy.#orderBy = [...this.#orderBy];
+    copy.#limit = this.#limit;
+    copy.#offset = this.#offset;
+    return copy;
+  }
+
+  #build() {
+    const columns = this.#columns.length ? sql(...this.#columns.map(makeColumnRef)).join(', ') : makeRaw('*');
+    const joins = this.#joins.map(({ table, on, type }) =>
+      sql`${raw(type)} JOIN ${makeTableRef(table)}`
+        .append(buildClauses(on).setSewingPattern('ON ((', ') AND (', '))'))
+        .join(' '),
+    );
+
+    return sql(
+      sql`SELECT ${raw(this.#distinct ? 'DISTINCT ' : '')}${columns}`,
+      this.#from === undefined ? undefined : sql`FROM ${makeTableRef(this.#from)}`,
+      ...joins,
+      WHERE(this.#where),
+      sql(...this.#groupBy.map(makeColumnRef)).setSewingPattern('GROUP BY ', ', '),
+      buildClauses(this.#having).setSewingPattern('HAVING ((', ') AND (', '))'),
+      sql(
+        ...this.#orderBy.flatMap((x) =>
+          typeof x === 'string' || isQueryFragment(x) ? [makeColumnRef(x)] : buildOrderByItems(x),
+        ),
+      ).setSewingPattern('ORDER BY ', ', '),
+      LIMIT(this.#limit, this.#offset),
+    ).join(' ');
+  }
+
+  toString(opts?: QueryFragmentToStringOptions) {
+    return this.#build().toString(opts);
+  }
+}
+
+/**
+ * SELECT builder
+ *
+ * @example
+ *   select('id', 'name').from('users').where({ active: true }).orderBy('name').limit(10)
+ *     => SELECT id, name FROM users WHERE ((active = $1)) ORDER BY name LIMIT $2
+ */
+export function select(...columns: ColumnRef[]) {
+  return new SelectBuilder(columns);
 }
 
 // aliases
@@ -640,3 +1670,40 @@ export const where = WHERE;
 export const WHERE_AND = WHERE;
 export const where_and = WHERE;
 export const where_or = WHERE_OR;
+export const order_by = ORDER_BY;
+
+/**
+ * SQL template tag
+ *
+ * The builders are also available as its properties.
+ *
+ * @example
+ *   sql`SELECT * FROM table WHERE id = ${id}`
+ *   sql.insert('table', { name: 'myname' })
+ *   sql.update('table', { name: 'myname' }, { id: 'root' })
+ */
+export const sql = Object.assign(sqlTag, {
+  insert: buildInsert,
+  update: buildUpdate,
+  delete: buildDelete,
+  upsert: buildUpsert,
+  values: buildValues,
+  keys: buildKeys,
+  where: WHERE,
+  whereOr: WHERE_OR,
+  and: AND,
+  or: OR,
+  limit: LIMIT,
+  offset: OFFSET,
+  orderBy: ORDER_BY,
+  union: UNION,
+  unionAll: UNION_ALL,
+  json,
+  ident: makeIdent,
+  param,
+  shared,
+  typed,
+  raw,
+  select,
+  with: WITH,
+});
@@ -147,19 +147,39 @@ const reservedKeywords = [
   'WITHOUT',
 ];
 
-export function quoteIdent(id: string) {
+export function quoteIdent(id: string, open: string = '"', close: string = open) {
   if (id.match(/^[a-zA-Z_][0-9a-zA-Z_$]*$/) && !reservedKeywords.includes(id.toUpperCase())) {
     return id;
   }
-  return `"${id.replace(/"/g, '""')}"`;
+  return `${open}${id.replaceAll(close, close + close)}${close}`;
 }
 
 export function quoteLiteral(s: string) {
-  const prefix = s.includes("'") ? 'E' : '';
+  const prefix = s.includes('\\') ? 'E' : '';
   return `${prefix}'${s.replace(/'/g, "''").replace(/\\/g, '\\\\')}'`;
 }
 
+// SQL standard; no backslash escapes
+export function quoteStandardLiteral(s: string) {
+  return `'${s.replace(/'/g, "''")}'`;
+}
+
+// MySQL style; backslash escapes
+export function quoteBackslashLiteral(s: string) {
+  const escapes: Record<string, string> = {
+    '\0': '\\0',
+    '\n': '\\n',
+    '\r': '\\r',
+    '\x1a': '\\Z',
+    "'": "\\'",
+    '\\': '\\\\',
+  };
+  return `'${s.replace(/[\0\n\r\x1a'\\]/g, (c) => escapes[c])}'`;
+}
+
 export default {
   quoteIdent,
   quoteLiteral,
+  quoteStandardLiteral,
+  quoteBackslashLiteral,
 };
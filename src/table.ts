@@ -0,0 +1,135 @@
+import type { FieldOperators, FieldValues, QueryFragment, WhereArg } from './query-weaver.ts';
+
+// TypeScript types for the column types; [value to be bound, value returned by node-postgres]
+type ColumnTypes = {
+  text: [string, string];
+  varchar: [string, string];
+  char: [string, string];
+  citext: [string, string];
+  uuid: [string, string];
+  smallint: [number, number];
+  integer: [number, number];
+  int: [number, number];
+  int2: [number, number];
+  int4: [number, number];
+  serial: [number, number];
+  real: [number, number];
+  float4: [number, number];
+  float8: [number, number];
+  'double precision': [number, number];
+  bigint: [bigint | number | string, string];
+  int8: [bigint | number | string, string];
+  bigserial: [bigint | number | string, string];
+  numeric: [number | string, string];
+  decimal: [number | string, string];
+  boolean: [boolean, boolean];
+  bool: [boolean, boolean];
+  bytea: [Uint8Array, Uint8Array];
+  date: [Date | string, Date];
+  timestamp: [Date | string, Date];
+  timestamptz: [Date | string, Date];
+  time: [string, string];
+  timetz: [string, string];
+  interval: [string, unknown];
+  json: [unknown, unknown];
+  jsonb: [unknown, unknown];
+};
+
+export type ColumnType = keyof ColumnTypes | `${keyof ColumnTypes}[]`;
+export type ColumnSpec = ColumnType | { type: ColumnType; nullable?: boolean };
+export type ColumnSpecs = Record<string, ColumnSpec>;
+
+type TypeOf<S> = S extends { type: infer T } ? T : S;
+type BaseType<T, I extends 0 | 1> = T extends `${infer U extends keyof ColumnTypes}[]`
+  ? ColumnTypes[U][I][]
+  : T extends keyof ColumnTypes
+    ? ColumnTypes[T][I]
+    : never;
+type Nullable<S, V> = S extends { nullable: true } ? V | null : V;
+
+export type ColumnValue<S> = Nullable<S, BaseType<TypeOf<S>, 0>>;
+export type ColumnResult<S> = Nullable<S, BaseType<TypeOf<S>, 1>>;
+
+const TABLE: unique symbol = Symbol('query-weaver.table');
+
+export type Table<Name extends string = string, Columns extends ColumnSpecs = ColumnSpecs> = {
+  readonly [TABLE]: true;
+  readonly name: Name;
+  readonly columns: Columns;
+};
+
+// columns of the table; any string for a table name
+export type ColumnOf<T extends string | Table> = T extends Table ? keyof T['columns'] & string : string;
+
+// a row returned by `RETURNING *`
+export type RowOf<T extends Table> = { [K in ColumnOf<T>]: ColumnResult<T['columns'][K]> };
+
+// a table name, or a table of unknown columns, e.g. `Table` itself; its values are not checked
+type Untyped<T extends string | Table> = string extends ColumnOf<T> ? true : false;
+
+// field values for INSERT and UPDATE
+export type FieldValuesOf<T extends string | Table> = T extends Table
+  ? Untyped<T> extends true
+    ? FieldValues
+    : { [K in ColumnOf<T>]?: ColumnValue<T['columns'][K]> | QueryFragment }
+  : FieldValues;
+
+export type WhereArgOf<T extends string | Table> = T extends Table
+  ? Untyped<T> extends true
+    ? WhereArg
+    : TypedWhereArg<T>
+  : WhereArg;
+
+type TypedWhereArg<T extends Table> =
+  | string
+  | QueryFragment
+  | undefined
+  | {
+      [K in ColumnOf<T>]?:
+        | ColumnValue<T['columns'][K]>
+        | ColumnValue<T['columns'][K]>[]
+        | FieldOperators<ColumnValue<T['columns'][K]>>
+        | QueryFragment
+        | null;
+    }
+  | TypedWhereArg<T>[];
+
+/**
+ * Define a table with its columns and their types
+ *
+ * Example:
+ *   const users = defineTable('users', { id: 'uuid', name: 'text', email: { type: 'text', nullable: true } });
+ *   await db.insert(users, { id, name: 'Alice' }, 'RETURNING *');
+ *     => { rows: [{ id: '...', name: 'Alice', email: null }], ... }
+ */
+export function defineTable<const Name extends string, const Columns extends ColumnSpecs>(
+  name: Name,
+  columns: Columns,
+): Table<Name, Columns> {
+  if (!name) throw new Error('defineTable requires a table name.');
+  if (!Object.keys(columns).length) throw new Error('defineTable requires at least one column.');
+
+  return Object.freeze({ [TABLE]: true as const, name, columns: Object.freeze({ ...columns }) });
+}
+
+export function isTable(x: unknown): x is Table {
+  return typeof x === 'object' && x !== null && TABLE in x;
+}
+
+export function columnTypeOf(spec: ColumnSpec): ColumnType {
+  return typeof spec === 'string' ? spec : spec.type;
+}
+
+export function tableName(table: string | Table) {
+  return typeof table === 'string' ? table : table.name;
+}
+
+// the type system should have caught it, but just in case
+export function assertColumns(table: string | Table, columns: string[]) {
+  if (typeof table === 'string') return;
+
+  const unknown = columns.find((c) => !Object.prototype.hasOwnProperty.call(table.columns, c));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown column '${unknown}' in table '${table.name}'.`);
+  }
+}
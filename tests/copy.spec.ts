@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { encodeCopyRow, encodeCopyRows, encodeCopyValue, sql } from '../src';
+
+describe('COPY text format', () => {
+  it('escapes special characters', () => {
+    expect(encodeCopyValue('a\tb\nc\\d\re')).toBe('a\\tb\\nc\\\\d\\re');
+    expect(encodeCopyValue(null)).toBe('\\N');
+    expect(encodeCopyValue(undefined)).toBe('\\N');
+    expect(encodeCopyValue('\\N')).toBe('\\\\N');
+    expect(encodeCopyValue(true)).toBe('true');
+  });
+
+  it('encodes arrays, JSON and bytes', () => {
+    expect(encodeCopyValue([1, null, 'a"b'])).toBe('{"1",NULL,"a\\\\"b"}');
+    expect(encodeCopyValue({ a: 'x\ny' })).toBe('{"a":"x\\\\ny"}');
+    expect(encodeCopyValue(new Uint8Array([0xde, 0xad]))).toBe('\\\\xdead');
+  });
+
+  it('encodes a row', () => {
+    expect(encodeCopyRow([1, 'a b', null])).toBe('1\ta b\t\\N\n');
+  });
+});
+
+describe('COPY csv format', () => {
+  it('quotes values when needed', () => {
+    expect(encodeCopyValue('plain', 'csv')).toBe('plain');
+    expect(encodeCopyValue('a,b', 'csv')).toBe('"a,b"');
+    expect(encodeCopyValue('say "hi"', 'csv')).toBe('"say ""hi"""');
+    expect(encodeCopyValue('a\nb', 'csv')).toBe('"a\nb"');
+    expect(encodeCopyValue('\\.', 'csv')).toBe('"\\."');
+  });
+
+  it('distinguishes NULL from an empty string', () => {
+    expect(encodeCopyValue(null, 'csv')).toBe('');
+    expect(encodeCopyValue('', 'csv')).toBe('""');
+    expect(encodeCopyRow([1, null, ''], 'csv')).toBe('1,,""\n');
+  });
+
+  it('encodes arrays and JSON', () => {
+    expect(encodeCopyValue(['a', 'b c'], 'csv')).toBe('"{""a"",""b c""}"');
+    expect(encodeCopyValue({ a: 1 }, 'csv')).toBe('"{""a"":1}"');
+  });
+});
+
+describe('encodeCopyRows', () => {
+  it('encodes rows from an async iterable in chunks', async () => {
+    async function* rows() {
+      yield { id: 1, name: 'a', ignored: true };
+      yield { id: 2 };
+    }
+
+    const chunks = [];
+    for await (const chunk of encodeCopyRows(rows(), ['id', 'name'])) chunks.push(chunk);
+    expect(chunks).toStrictEqual(['1\ta\n2\t\\N\n']);
+  });
+
+  it('flushes large data', async () => {
+    const rows = Array.from({ length: 3 }, () => ({ s: 'x'.repeat(40000) }));
+
+    const chunks = [];
+    for await (const chunk of encodeCopyRows(rows, ['s'])) chunks.push(chunk);
+    expect(chunks.map((c) => c.length)).toStrictEqual([80002, 40001]);
+  });
+
+  it('rejects fragments', async () => {
+    await expect(encodeCopyRows([{ at: sql`now()` }], ['at']).next()).rejects.toThrowError(
+      'COPY does not support QueryFragment values.',
+    );
+  });
+});
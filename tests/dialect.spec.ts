@@ -0,0 +1,438 @@
+import { prepareValue } from 'pg/lib/utils.js';
+import { describe, expect, it } from 'vitest';
+import {
+  buildDelete,
+  buildInsert,
+  buildUpdate,
+  buildUpsert,
+  ident,
+  LIMIT,
+  makeContextHandler,
+  mssqlDialect,
+  mysqlDialect,
+  OFFSET,
+  param,
+  pgDialect,
+  sql,
+  sqliteDialect,
+  typed,
+  WHERE,
+  QueryHelper,
+  shared,
+  withQueryHelper,
+  type Dialect,
+  type QueryResult,
+} from '../src';
+
+describe('compile', () => {
+  const q = sql`SELECT * FROM ${ident('my table.order')} WHERE a = ${1} AND b = ${"it's"} AND c = ${true}`;
+
+  it('defaults to PostgreSQL', () => {
+    expect(q.compile()).toStrictEqual({ text: q.text, values: q.values, embed: q.embed });
+    expect(q.compile(pgDialect).text).toBe('SELECT * FROM "my table"."order" WHERE a = $1 AND b = $2 AND c = $3');
+  });
+
+  it('compiles for MySQL', () => {
+    const { text, values, embed } = q.compile(mysqlDialect);
+    expect(text).toBe('SELECT * FROM `my table`.`order` WHERE a = ? AND b = ? AND c = ?');
+    expect(values).toStrictEqual([1, "it's", true]);
+    expect(embed).toBe("SELECT * FROM `my table`.`order` WHERE a = '1' AND b = 'it\\'s' AND c = TRUE");
+  });
+
+  it('compiles for SQLite', () => {
+    const { text, embed } = q.compile(sqliteDialect);
+    expect(text).toBe('SELECT * FROM "my table"."order" WHERE a = ? AND b = ? AND c = ?');
+    expect(embed).toBe(`SELECT * FROM "my table"."order" WHERE a = '1' AND b = 'it''s' AND c = 1`);
+  });
+
+  it('compiles for SQL Server', () => {
+    const { text, embed } = q.compile(mssqlDialect);
+    expect(text).toBe('SELECT * FROM [my table].[order] WHERE a = @p1 AND b = @p2 AND c = @p3');
+    expect(embed).toBe("SELECT * FROM [my table].[order] WHERE a = N'1' AND b = N'it''s' AND c = 1");
+  });
+
+  it('escapes identifier delimiters', () => {
+    expect(ident('a`b').compile(mysqlDialect).text).toBe('`a``b`');
+    expect(ident('a]b').compile(mssqlDialect).text).toBe('[a]]b]');
+  });
+
+  it('embeds binary values', () => {
+    const bytes = new Uint8Array([0xde, 0xad]);
+    expect(sql`${bytes}`.compile(mysqlDialect).embed).toBe("X'dead'");
+    expect(sql`${bytes}`.compile(mssqlDialect).embed).toBe('0xdead');
+  });
+});
+
+describe('PostgreSQL embed conformance', () => {
+  // read back a literal as PostgreSQL does (standard_conforming_strings = on)
+  const unquote = (lit: string) => {
+    if (lit === 'NULL') return null;
+    const m = lit.match(/^'\\x([0-9a-f]*)'::bytea$/);
+    if (m) return Buffer.from(m[1], 'hex');
+    const body = lit.replace(/^E?'|'$/g, '').replace(/''/g, "'");
+    return lit.startsWith('E') ? body.replace(/\\(.)/g, '$1') : body;
+  };
+
+  const cases: [string, unknown][] = [
+    ['undefined', undefined],
+    ['number', 1.5],
+    ['bigint', 12345678901234567890n],
+    ['string with quotes and backslashes', `it's C:\\path "x"`],
+    ['Date', new Date('2024-01-02T03:04:05.678Z')],
+    ['Buffer', Buffer.from([0xde, 0xad, 0xbe, 0xef])],
+    ['Uint8Array', new Uint8Array([0, 1, 255])],
+    ['empty array', []],
+    ['array', [1, 'a', null, undefined]],
+    ['nested array', [[1, 2], [3, 4], []]],
+    ['array of special strings', ['a"b', 'c\\d', "e'f", '', 'NULL']],
+    ['array of Buffers and Dates', [Buffer.from([1]), new Date(0)]],
+    ['array of objects', [{ a: 1 }]],
+    ['object', { a: [1, { b: "it's" }] }],
+    ['object with toJSON', { toJSON: () => 'x' }],
+    ['object with toPostgres', { toPostgres: () => [1, 2] }],
+  ];
+
+  it.each(cases)('matches prepareValue for %s', (_, v) => {
+    expect(unquote(pgDialect.literal(v))).toStrictEqual(prepareValue(v));
+  });
+
+  it('renders readable literals', () => {
+    expect(pgDialect.literal([])).toBe("'{}'");
+    expect(pgDialect.literal([[1, 2], [3]])).toBe(`'{{"1","2"},{"3"}}'`);
+    expect(pgDialect.literal(Buffer.from([0xde, 0xad]))).toBe("'\\xdead'::bytea");
+    expect(pgDialect.literal(12n)).toBe("'12'");
+    expect(pgDialect.literal({ a: 1 })).toBe(`'{"a":1}'`);
+    expect(pgDialect.literal('a\\b')).toBe("E'a\\\\b'");
+    expect(sql`SELECT ${[]}::int[]`.embed).toBe("SELECT '{}'::int[]");
+  });
+});
+
+describe('named parameters', () => {
+  it('binds values by name', () => {
+    const q = sql`SELECT * FROM t WHERE owner = ${param('userId', 42)} OR author = ${param('userId', 42)} AND a = ${1}`;
+
+    expect(q.compile(pgDialect, { named: true })).toStrictEqual({
+      text: 'SELECT * FROM t WHERE owner = :userId OR author = :userId AND a = :p1',
+      values: { userId: 42, p1: 1 },
+      embed: "SELECT * FROM t WHERE owner = '42' OR author = '42' AND a = '1'",
+    });
+    expect(q.compile(mssqlDialect, { named: true }).text).toBe(
+      'SELECT * FROM t WHERE owner = @userId OR author = @userId AND a = @p1',
+    );
+  });
+
+  it('keeps positional compilation as is', () => {
+    const q = sql`SELECT ${param('a', 1)}, ${param('a', 1)}`;
+    expect(q.text).toBe('SELECT $1, $2');
+    expect(q.compile(mysqlDialect).values).toStrictEqual([1, 1]);
+  });
+
+  it('avoids collisions with generated names', () => {
+    const q = sql`SELECT ${1}, ${param('p1', 2)}`;
+    expect(q.compile(sqliteDialect, { named: true })).toMatchObject({
+      text: 'SELECT :p2, :p1',
+      values: { p1: 2, p2: 1 },
+    });
+  });
+
+  it('accepts equal values of the same name', () => {
+    const at = (ms: number) => new Date(ms);
+    const q = sql`${param('ids', [1, 2])} ${param('ids', [1, 2])} ${param('at', at(0))} ${param('at', at(0))}`;
+    expect(q.compile(pgDialect, { named: true })).toMatchObject({
+      text: ':ids :ids :at :at',
+      values: { ids: [1, 2], at: at(0) },
+    });
+
+    expect(() => sql`${param('a', [1, 2])} ${param('a', [2, 1])}`.compile(pgDialect, { named: true })).toThrowError(
+      "Parameter 'a' is bound to different values.",
+    );
+    expect(() => sql`${param('a', at(0))} ${param('a', at(1))}`.compile(pgDialect, { named: true })).toThrowError(
+      "Parameter 'a' is bound to different values.",
+    );
+    expect(() => sql`${param('a', 1)} ${param('a', '1')}`.compile(pgDialect, { named: true })).toThrowError(
+      "Parameter 'a' is bound to different values.",
+    );
+  });
+
+  it('throws on conflicting values and invalid names', () => {
+    expect(() => sql`${param('a', 1)} ${param('a', 2)}`.compile(pgDialect, { named: true })).toThrowError(
+      "Parameter 'a' is bound to different values.",
+    );
+    expect(() => param('a-b', 1)).toThrowError("Invalid parameter name: 'a-b'.");
+  });
+});
+
+describe('deduplication', () => {
+  const ids = [1, 2, 3];
+
+  it('keeps the default output unchanged', () => {
+    const q = sql`SELECT ${ids}, ${ids}, ${1}, ${1}`;
+    expect(q.text).toBe('SELECT $1, $2, $3, $4');
+    expect(q.compile().text).toBe('SELECT $1, $2, $3, $4');
+  });
+
+  it('reuses placeholders for identical values on demand', () => {
+    const q = sql`SELECT ${ids}, ${[1, 2, 3]}, ${ids}, ${1}, ${'1'}, ${1}`;
+    expect(q.compile(pgDialect, { dedupe: true })).toMatchObject({
+      text: 'SELECT $1, $2, $1, $3, $4, $3',
+      values: [ids, [1, 2, 3], 1, '1'],
+    });
+    expect(q.compile(mssqlDialect, { dedupe: true }).text).toBe('SELECT @p1, @p2, @p1, @p3, @p4, @p3');
+    expect(q.compile(pgDialect, { named: true, dedupe: true })).toMatchObject({
+      text: 'SELECT :p1, :p2, :p1, :p3, :p4, :p3',
+      values: { p1: ids, p2: [1, 2, 3], p3: 1, p4: '1' },
+    });
+  });
+
+  it('reuses placeholders for shared values', () => {
+    const q = sql`SELECT ${shared(ids)} UNION SELECT ${shared(ids)} UNION SELECT ${ids}`;
+    expect(q.compile()).toMatchObject({ text: 'SELECT $1 UNION SELECT $1 UNION SELECT $2', values: [ids, ids] });
+    expect([q.text, q.values]).toStrictEqual(['SELECT $1 UNION SELECT $1 UNION SELECT $2', [ids, ids]]);
+  });
+
+  it('does not reuse placeholders across types', () => {
+    const q = sql`SELECT ${typed(1, 'int')}, ${typed(1, 'text')}, ${1}, ${typed(1, 'int')}`;
+    expect(q.compile(pgDialect, { dedupe: true })).toMatchObject({
+      text: 'SELECT $1::int, $2::text, $3, $1::int',
+      values: [1, 1, 1],
+    });
+  });
+
+  it('does not reuse `?` placeholders', () => {
+    const q = sql`SELECT ${shared(ids)}, ${shared(ids)}`;
+    expect(q.compile(mysqlDialect, { dedupe: true })).toMatchObject({ text: 'SELECT ?, ?', values: [ids, ids] });
+  });
+});
+
+describe('lexical context', () => {
+  const v = 'x';
+
+  it('honours MySQL backslash escapes and comments', () => {
+    const q = sql`SELECT '\\' ${v}', ${v} # ${v}
+      , ${v} -- ${v}
+      , ${v} --${v}`;
+    expect(q.compile(mysqlDialect).text).toBe(`SELECT '\\' ', ? # \n      , ? -- \n      , ? --?`);
+  });
+
+  it('does not nest block comments for MySQL', () => {
+    const q = sql`/* /* */ ${v}`;
+    expect(q.compile(mysqlDialect).text).toBe('/* /* */ ?');
+    expect(q.compile(pgDialect).text).toBe('/* /* */ ');
+  });
+
+  it('skips quoted identifiers', () => {
+    expect(sql`SELECT [${v}'], ${v}`.compile(mssqlDialect).text).toBe("SELECT ['], @p1");
+    expect(sql`SELECT \`${v}'\`, ${v}`.compile(mysqlDialect).text).toBe("SELECT `'`, ?");
+  });
+
+  it('allows custom dialects', () => {
+    const oracle: Dialect = {
+      ...pgDialect,
+      name: 'oracle',
+      placeholder: (idx) => ':' + idx,
+      contextHandler: makeContextHandler({ lineComment: '--', quotedIdents: { '"': '"' } }),
+    };
+    expect(sql`SELECT ${1}, ${2} FROM dual`.compile(oracle).text).toBe('SELECT :1, :2 FROM dual');
+  });
+});
+
+describe('dialect-aware builders', () => {
+  const upsert = buildUpsert('users', [{ id: 1, name: 'a' }], ['id']);
+
+  it('builds upsert for PostgreSQL', () => {
+    expect(upsert.text).toBe(
+      'INSERT INTO users (id, name) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name',
+    );
+  });
+
+  it('builds upsert for SQLite', () => {
+    expect(upsert.compile(sqliteDialect).text).toBe(
+      'INSERT INTO users (id, name) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET name = excluded.name',
+    );
+  });
+
+  it('builds upsert for MySQL', () => {
+    expect(upsert.compile(mysqlDialect).text).toBe(
+      'INSERT INTO users (id, name) VALUES (?, ?) ON DUPLICATE KEY UPDATE name = VALUES(name)',
+    );
+    expect(buildUpsert('users', { id: 1 }, ['id']).compile(mysqlDialect).text).toBe(
+      'INSERT INTO users (id) VALUES (?) ON DUPLICATE KEY UPDATE id = id',
+    );
+  });
+
+  it('builds upsert for SQL Server', () => {
+    const { text, values } = upsert.compile(mssqlDialect);
+    expect(text).toBe(
+      'MERGE INTO users AS target USING (VALUES (@p1, @p2)) AS source (id, name) ON (target.id = source.id) ' +
+        'WHEN MATCHED THEN UPDATE SET name = source.name ' +
+        'WHEN NOT MATCHED THEN INSERT (id, name) VALUES (source.id, source.name);',
+    );
+    expect(values).toStrictEqual([1, 'a']);
+  });
+
+  it('expands arrays in WHERE to a list outside PostgreSQL', () => {
+    const where = WHERE({ id: [1, 2], a: { in: [3], notIn: [4, 5] }, b: [], c: { notIn: [] } });
+    expect(where.text).toBe('WHERE ((id = ANY ($1)) AND (a = ANY ($2)) AND (a <> ALL ($3)) AND (FALSE) AND (TRUE))');
+    expect(where.compile(mysqlDialect)).toMatchObject({
+      text: 'WHERE ((id IN (?, ?)) AND (a IN (?)) AND (a NOT IN (?, ?)) AND (FALSE) AND (TRUE))',
+      values: [1, 2, 3, 4, 5],
+    });
+    expect(where.compile(sqliteDialect).text).toBe(
+      'WHERE ((id IN (?, ?)) AND (a IN (?)) AND (a NOT IN (?, ?)) AND (FALSE) AND (TRUE))',
+    );
+    expect(where.compile(mssqlDialect).text).toBe(
+      'WHERE ((id IN (@p1, @p2)) AND (a IN (@p3)) AND (a NOT IN (@p4, @p5)) AND (1 = 0) AND (1 = 1))',
+    );
+  });
+
+  it('rejects the operators of PostgreSQL for the other dialects', () => {
+    expect(WHERE({ a: { like: 'x%' } }).compile(mysqlDialect).text).toBe('WHERE ((a LIKE ?))');
+    for (const [op, value] of [
+      ['ilike', 'x%'],
+      ['notIlike', 'x%'],
+      ['contains', [1]],
+      ['containedBy', [1]],
+      ['overlaps', [1]],
+    ] as const) {
+      const where = WHERE({ a: { [op]: value } });
+      expect(where.compile(pgDialect).values).toStrictEqual([value]);
+      for (const dialect of [mysqlDialect, sqliteDialect, mssqlDialect]) {
+        expect(() => where.compile(dialect)).toThrowError(`Operator '${op}' is not supported by ${dialect.name}.`);
+      }
+    }
+  });
+
+  it('builds RETURNING as OUTPUT for SQL Server', () => {
+    const opts = { returning: ['id', 'name'] };
+    expect(buildInsert('t', [{ name: 'a' }], undefined, opts).compile(mssqlDialect).text).toBe(
+      'INSERT INTO t (name) OUTPUT inserted.id, inserted.name VALUES (@p1)',
+    );
+    expect(buildUpdate('t', { name: 'a' }, { id: 1 }, undefined, opts).compile(mssqlDialect).text).toBe(
+      'UPDATE t SET name = @p1 OUTPUT inserted.id, inserted.name WHERE ((id = @p2))',
+    );
+    expect(buildDelete('t', { id: 1 }, undefined, { returning: '*' }).compile(mssqlDialect).text).toBe(
+      'DELETE FROM t OUTPUT deleted.* WHERE ((id = @p1))',
+    );
+    expect(buildDelete('t', { id: 1 }, undefined, { returning: '*' }).compile(sqliteDialect).text).toBe(
+      'DELETE FROM t WHERE ((id = ?)) RETURNING *',
+    );
+  });
+
+  it('rejects RETURNING for MySQL', () => {
+    for (const q of [
+      buildInsert('t', { name: 'a' }, undefined, { returning: '*' }),
+      buildUpdate('t', { name: 'a' }, { id: 1 }, undefined, { returning: ['id'] }),
+      buildDelete('t', { id: 1 }, undefined, { returning: '*' }),
+      buildUpsert('t', { id: 1, name: 'a' }, ['id'], undefined, { returning: '*' }),
+    ]) {
+      expect(() => q.compile(mysqlDialect)).toThrowError('RETURNING is not supported by mysql.');
+    }
+  });
+
+  it('builds LIMIT and OFFSET', () => {
+    expect(sql`${LIMIT(10)} ${OFFSET(20)}`.text).toBe('LIMIT $1 OFFSET $2');
+    expect(LIMIT(10, 20).text).toBe('LIMIT $1 OFFSET $2');
+    expect(LIMIT(10, 20).compile(mysqlDialect).text).toBe('LIMIT ? OFFSET ?');
+    expect(LIMIT(null, 20).compile(mysqlDialect).text).toBe('LIMIT 18446744073709551615 OFFSET ?');
+    expect(LIMIT(null, 20).compile(sqliteDialect).text).toBe('LIMIT -1 OFFSET ?');
+    expect(LIMIT(10, 20).compile(mssqlDialect)).toMatchObject({
+      text: 'OFFSET @p1 ROWS FETCH NEXT @p2 ROWS ONLY',
+      values: [20, 10],
+    });
+    expect(LIMIT(10).compile(mssqlDialect).text).toBe('OFFSET 0 ROWS FETCH NEXT @p1 ROWS ONLY');
+    expect(LIMIT(-1, undefined).text).toBe('');
+  });
+
+  it('builds LIMIT and OFFSET separately except for SQL Server', () => {
+    const q = sql`SELECT * FROM t ${LIMIT(10)} ${OFFSET(20)}`;
+    expect(q.compile(pgDialect).text).toBe('SELECT * FROM t LIMIT $1 OFFSET $2');
+    expect(q.compile(mysqlDialect).text).toBe('SELECT * FROM t LIMIT ? OFFSET ?');
+    expect(q.compile(sqliteDialect).text).toBe('SELECT * FROM t LIMIT ? OFFSET ?');
+    expect(sql`SELECT * FROM t ${sql.limit(10)} ${sql.offset(20)}`.compile(mysqlDialect).values).toStrictEqual([
+      10, 20,
+    ]);
+
+    expect(() => q.compile(mssqlDialect)).toThrowError(
+      'OFFSET is not supported by mssql; use LIMIT(limit, offset) instead.',
+    );
+    expect(OFFSET(undefined).compile(mssqlDialect).text).toBe('');
+  });
+});
+
+describe('QueryHelper with dialect', () => {
+  it('compiles queries for the configured dialect', async () => {
+    const executed: { text: string; values: unknown[] }[] = [];
+    const db = withQueryHelper(
+      {
+        async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+          executed.push({ text: cfg.text, values: cfg.values });
+          return { rows: [], rowCount: 0 };
+        },
+      },
+      { dialect: mysqlDialect },
+    );
+
+    await db.query`SELECT * FROM ${ident('t')} WHERE id = ${1}`;
+    await db.insert('t', { id: 2 });
+
+    expect(executed).toStrictEqual([
+      { text: 'SELECT * FROM t WHERE id = ?', values: [1] },
+      { text: 'INSERT INTO t (id) VALUES (?)', values: [2] },
+    ]);
+  });
+});
+
+describe('QueryHelper with dedupe', () => {
+  it('compiles queries with deduplication', async () => {
+    const executed: { text: string; values: unknown[] }[] = [];
+    const db = withQueryHelper(
+      {
+        async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+          executed.push({ text: cfg.text, values: cfg.values });
+          return { rows: [], rowCount: 0 };
+        },
+      },
+      { dedupe: true },
+    );
+
+    await db.query`SELECT ${1}, ${1}`;
+
+    expect(executed).toStrictEqual([{ text: 'SELECT $1, $1', values: [1] }]);
+  });
+
+  it('reuses placeholders for shared values without the option', async () => {
+    const executed: { text: string; values: unknown[] }[] = [];
+    const db = withQueryHelper({
+      async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+        executed.push({ text: cfg.text, values: cfg.values });
+        return { rows: [], rowCount: 0 };
+      },
+    });
+
+    const ids = [1, 2];
+    await db.query`SELECT ${shared(ids)}, ${shared(ids)}, ${ids}`;
+
+    expect(executed).toStrictEqual([{ text: 'SELECT $1, $1, $2', values: [ids, ids] }]);
+  });
+});
+
+describe('SQLite adapter', () => {
+  it('compiles builders for SQLite', async () => {
+    const prepared: string[] = [];
+    const db = withQueryHelper(
+      {
+        prepare(text: string) {
+          prepared.push(text);
+          return { all: () => [] };
+        },
+      },
+      { query: QueryHelper.sqlite },
+    );
+
+    await db.upsert('users', { id: 1, name: 'a' }, ['id']);
+
+    expect(prepared).toStrictEqual([
+      'INSERT INTO users (id, name) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET name = excluded.name',
+    ]);
+  });
+});
@@ -1,6 +1,57 @@
-import { describe, expect, it } from 'vitest';
-import type { QueryResult } from '../src/query-helper.ts';
+import { EventEmitter } from 'node:events';
+import { describe, expect, it, vi } from 'vitest';
+import { encodeCopyRows } from '../src/copy.ts';
+import { mysqlDialect, pgDialect } from '../src/dialect.ts';
+import type { QueryHelperOptions, QueryResult, StandardSchemaV1 } from '../src/query-helper.ts';
 import { QueryHelper, withQueryHelper } from '../src/query-helper.ts';
+import { encodeCursor, sql } from '../src/query-weaver.ts';
+
+type FakeDbOptions = QueryHelperOptions<object, object> & {
+  // `connect` makes a client of its own, and `release` is recorded
+  pool?: boolean;
+  // the error to throw for the query, if any
+  fail?: (text: string) => unknown;
+  // `beforeQuery` and `afterQuery` are recorded
+  trace?: boolean;
+};
+
+// a database that records the queries; the numbers bound are returned as the ids of RETURNING
+const makeDb = ({ pool, fail, trace, ...opts }: FakeDbOptions = {}) => {
+  const calls: string[] = [];
+  const executed: { conn: string; text: string; values: unknown[] }[] = [];
+  const copied: { conn: string; text: string; data: string }[] = [];
+  let clients = 0;
+
+  const makeConn = (conn: string) => ({
+    conn,
+    async query({ text, values }: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+      calls.push(text);
+      executed.push({ conn, text, values });
+      const error = fail?.(text);
+      if (error) throw error;
+      const ids = values.filter((v) => typeof v === 'number');
+      return { rows: text.includes('RETURNING') ? ids.map((id) => ({ id })) : [], rowCount: ids.length };
+    },
+  });
+
+  const db = withQueryHelper(makeConn('db'), {
+    ...(pool ? { connect: async () => makeConn(`client${++clients}`), release: () => void calls.push('release') } : {}),
+    ...(trace
+      ? {
+          beforeQuery: ({ text }) => calls.push(`before ${text}`),
+          afterQuery: ({ text }, { rowCount }) => calls.push(`after ${text} ${rowCount}`),
+        }
+      : {}),
+    async copyStream(this: object, { text }, chunks) {
+      let data = '';
+      for await (const chunk of chunks) data += chunk;
+      copied.push({ conn: (this as { conn: string }).conn, text, data });
+      return undefined;
+    },
+    ...opts,
+  });
+  return { db, calls, executed, copied };
+};
 
 describe('QueryHelper error messages', () => {
   it('throws when query function is missing', async () => {
@@ -42,6 +93,266 @@ describe('withQueryHelper bindings', () => {
   });
 });
 
+describe('QueryHelper row mappers', () => {
+  const rows = [
+    { user_id: 1, display_name: 'a' },
+    { user_id: 2, display_name: null },
+  ];
+  const queryable = {
+    async query(_: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+      return { rows: rows.map((row) => ({ ...row })), rowCount: rows.length };
+    },
+  };
+
+  type User = { userId: number; displayName: string };
+  const UserSchema: StandardSchemaV1<unknown, User> = {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const row = value as Record<string, unknown>;
+        if (typeof row.displayName !== 'string') {
+          return { issues: [{ message: 'Expected string', path: [{ key: 'displayName' }] }] };
+        }
+        return { value: row as User };
+      },
+    },
+  };
+
+  it('maps rows with a function', async () => {
+    const db = withQueryHelper(queryable);
+    const ids = await db.getRows(sql`SELECT * FROM users`, (row) => row.user_id as number);
+    expect(ids).toStrictEqual([1, 2]);
+    expect(await db.getRow('SELECT * FROM users', [], (row) => row.display_name)).toBe('a');
+    expect(await db.getOne(sql`SELECT * FROM users`, String)).toBe('1');
+    expect(await db.getOne(sql`SELECT * FROM users`, (value) => Number(value) * 2)).toBe(2);
+  });
+
+  it('converts column names', async () => {
+    const db = withQueryHelper(queryable, { columnName: 'camelCase' });
+    expect(await db.getRows`SELECT * FROM users`).toStrictEqual([
+      { userId: 1, displayName: 'a' },
+      { userId: 2, displayName: null },
+    ]);
+    expect((await db.query({ text: 'SELECT * FROM users' }, (row) => row.userId)).rows).toStrictEqual([1, 2]);
+  });
+
+  it('validates rows with a Standard Schema', async () => {
+    const db = withQueryHelper(queryable, { columnName: 'camelCase' });
+    await expect(db.getRows(sql`SELECT * FROM users`, UserSchema)).rejects.toThrowError(
+      'Invalid row: displayName: Expected string',
+    );
+    await expect(db.getRow(sql`SELECT * FROM users`, UserSchema)).resolves.toStrictEqual({
+      userId: 1,
+      displayName: 'a',
+    });
+  });
+});
+
+describe('QueryHelper key transform', () => {
+  it('maps field names and reverses them on returned rows', async () => {
+    const executed: string[] = [];
+    const db = withQueryHelper(
+      {
+        async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+          executed.push(cfg.text);
+          return { rows: [{ user_id: 1, display_name: 'a' }], rowCount: 1 };
+        },
+      },
+      { keyTransform: 'snake_case' },
+    );
+
+    const { rows } = await db.insert('users', { userId: 1, displayName: 'a' }, 'RETURNING *');
+    await db.update('users', { displayName: 'b' }, { userId: 1 });
+    await db.upsert('users', { userId: 1, displayName: 'a' }, ['userId']);
+    await db.delete('users', { userId: 1 });
+
+    expect(rows).toStrictEqual([{ userId: 1, displayName: 'a' }]);
+    expect(executed).toStrictEqual([
+      'INSERT INTO users (user_id, display_name) VALUES ($1, $2) RETURNING *',
+      'UPDATE users SET display_name = $1 WHERE ((user_id = $2))',
+      'INSERT INTO users (user_id, display_name) VALUES ($1, $2) ON CONFLICT (user_id) DO UPDATE SET display_name = EXCLUDED.display_name',
+      'DELETE FROM users WHERE ((user_id = $1))',
+    ]);
+  });
+});
+
+describe('QueryHelper returning', () => {
+  const executed: string[] = [];
+  const db = withQueryHelper({
+    async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+      executed.push(cfg.text);
+      return cfg.text.includes('RETURNING') ? { rows: [{ id: 1 }], rowCount: 1 } : { rows: [], rowCount: 0 };
+    },
+  });
+
+  it('returns the selected columns', async () => {
+    const { rows } = await db.insert('users', { name: 'a' }, { returning: ['id'] });
+    await db.update('users', { name: 'b' }, { id: 1 }, { returning: '*' });
+    await db.delete('users', { id: 1 }, { returning: ['id'] });
+    await db.upsert('users', { id: 1, name: 'a' }, ['id'], { returning: ['id'] });
+
+    expect(rows).toStrictEqual([{ id: 1 }]);
+    expect(executed.splice(0)).toStrictEqual([
+      'INSERT INTO users (name) VALUES ($1) RETURNING id',
+      'UPDATE users SET name = $1 WHERE ((id = $2)) RETURNING *',
+      'DELETE FROM users WHERE ((id = $1)) RETURNING id',
+      'INSERT INTO users (id, name) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name RETURNING id',
+    ]);
+  });
+
+  it('returns the single row', async () => {
+    expect(await db.insertOne('users', { name: 'a' })).toStrictEqual({ id: 1 });
+    expect(await db.updateOne('users', { name: 'b' }, { id: 1 }, { returning: ['id'] })).toStrictEqual({ id: 1 });
+
+    expect(executed.splice(0)).toStrictEqual([
+      'INSERT INTO users (name) VALUES ($1) RETURNING *',
+      'UPDATE users SET name = $1 WHERE ((id = $2)) RETURNING id',
+    ]);
+    await expect(db.updateOne('users', { name: 'b' }, { id: undefined })).rejects.toThrowError(
+      'UPDATE requires a non-empty WHERE condition.',
+    );
+  });
+});
+
+describe('QueryHelper bulk insert', () => {
+  const rows = Array.from({ length: 5 }, (_, i) => ({ id: i + 1, name: `n${i + 1}` }));
+
+  it('splits rows into chunks in a transaction', async () => {
+    const { db, executed } = makeDb();
+    const result = await db.insert('t', rows, { returning: ['id'], chunkSize: 2 });
+
+    expect(executed.map((x) => x.text)).toStrictEqual([
+      'BEGIN',
+      'INSERT INTO t (id, name) VALUES ($1, $2), ($3, $4) RETURNING id',
+      'INSERT INTO t (id, name) VALUES ($1, $2), ($3, $4) RETURNING id',
+      'INSERT INTO t (id, name) VALUES ($1, $2) RETURNING id',
+      'COMMIT',
+    ]);
+    expect(result.rowCount).toBe(5);
+    expect(result.rows).toStrictEqual(rows.map(({ id }) => ({ id })));
+  });
+
+  it('computes the chunk size from the parameter limit', async () => {
+    const { db, executed } = makeDb({ dialect: { ...pgDialect, maxParameters: 5 } });
+    const result = await db.upsert('t', rows, ['id']);
+
+    expect(executed.map((x) => x.text)).toStrictEqual([
+      'BEGIN',
+      'INSERT INTO t (id, name) VALUES ($1, $2), ($3, $4) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name',
+      'INSERT INTO t (id, name) VALUES ($1, $2), ($3, $4) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name',
+      'INSERT INTO t (id, name) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name',
+      'COMMIT',
+    ]);
+    expect(result.rowCount).toBe(5);
+  });
+
+  it('runs a single statement within the limit', async () => {
+    const { db, executed } = makeDb();
+    await db.insert('t', rows);
+
+    expect(executed).toHaveLength(1);
+    await expect(db.insert('t', rows, { chunkSize: 0 })).rejects.toThrowError('chunkSize must be a positive integer.');
+  });
+
+  it('runs a single UNNEST statement regardless of the parameter limit', async () => {
+    const { db, executed } = makeDb({ dialect: { ...pgDialect, maxParameters: 5 } });
+    await db.insert('t', rows, { unnest: { id: 'int', name: 'text' } });
+
+    expect(executed).toStrictEqual([
+      {
+        conn: 'db',
+        text: 'INSERT INTO t (id, name) SELECT * FROM UNNEST($1::int[], $2::text[])',
+        values: [rows.map((r) => r.id), rows.map((r) => r.name)],
+      },
+    ]);
+  });
+
+  it('rejects UNNEST outside PostgreSQL', async () => {
+    const { db, calls } = makeDb({ dialect: mysqlDialect });
+    await expect(db.insert('t', rows, { unnest: { id: 'int', name: 'text' } })).rejects.toThrowError(
+      'UNNEST is not supported by mysql.',
+    );
+    expect(calls).toStrictEqual([]);
+  });
+
+  it('rolls back all the chunks on error', async () => {
+    const { db, calls } = makeDb({ fail: (text) => text.includes('$3') && new Error('fail') });
+
+    await expect(db.insert('t', [{ id: 1 }, { id: 2 }, { id: 3 }, { id: 4 }], { chunkSize: 3 })).rejects.toThrowError(
+      'fail',
+    );
+    expect(calls).toStrictEqual(['BEGIN', 'INSERT INTO t (id) VALUES ($1), ($2), ($3)', 'ROLLBACK']);
+  });
+});
+
+describe('QueryHelper paginate', () => {
+  const table = Array.from({ length: 5 }, (_, i) => ({ id: i + 1 }));
+
+  // emulates `ORDER BY id [DESC] LIMIT n` with the keyset condition
+  const db = withQueryHelper({
+    executed: [] as { text: string; values: unknown[] }[],
+    async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+      this.executed.push({ text: cfg.text, values: cfg.values });
+      const desc = cfg.text.includes('ORDER BY id DESC');
+      const limit = cfg.values[cfg.values.length - 1] as number;
+      const bound = cfg.values.length > 1 ? (cfg.values[0] as number) : undefined;
+      const rows = (desc ? [...table].reverse() : table).filter(
+        (row) => bound === undefined || (desc ? row.id < bound : row.id > bound),
+      );
+      return { rows: rows.slice(0, limit), rowCount: rows.length };
+    },
+  });
+
+  it('pages forward and backward', async () => {
+    const query = sql`SELECT * FROM items`;
+
+    const page1 = await db.paginate(query, { id: 'asc' }, { limit: 2 });
+    expect(db.executed[0].text).toBe('SELECT * FROM (SELECT * FROM items) AS _page ORDER BY id LIMIT $1');
+    expect(page1.rows).toStrictEqual([{ id: 1 }, { id: 2 }]);
+    expect(page1.prevCursor).toBeNull();
+
+    const page2 = await db.paginate(query, { id: 'asc' }, { limit: 2, cursor: page1.nextCursor });
+    expect(db.executed[1].text).toBe(
+      'SELECT * FROM (SELECT * FROM items) AS _page WHERE (((id) > ($1))) ORDER BY id LIMIT $2',
+    );
+    expect(page2.rows).toStrictEqual([{ id: 3 }, { id: 4 }]);
+
+    const page3 = await db.paginate(query, { id: 'asc' }, { limit: 2, cursor: page2.nextCursor });
+    expect(page3.rows).toStrictEqual([{ id: 5 }]);
+    expect(page3.nextCursor).toBeNull();
+
+    const back = await db.paginate(query, { id: 'asc' }, { limit: 2, cursor: page3.prevCursor });
+    expect(back.rows).toStrictEqual([{ id: 3 }, { id: 4 }]);
+    expect(back.nextCursor).not.toBeNull();
+
+    const first = await db.paginate(query, { id: 'asc' }, { limit: 2, cursor: back.prevCursor });
+    expect(first.rows).toStrictEqual([{ id: 1 }, { id: 2 }]);
+    expect(first.prevCursor).toBeNull();
+  });
+
+  it('makes cursors from the original column names', async () => {
+    const db = withQueryHelper(
+      {
+        async query(): Promise<QueryResult<object>> {
+          return { rows: [{ item_id: 1 }, { item_id: 2 }, { item_id: 3 }], rowCount: 3 };
+        },
+      },
+      { columnName: 'camelCase' },
+    );
+
+    const page = await db.paginate(sql`SELECT * FROM items`, { item_id: 'asc' }, { limit: 2 });
+    expect(page.rows).toStrictEqual([{ itemId: 1 }, { itemId: 2 }]);
+    expect(page.nextCursor).toBe(encodeCursor({ backward: false, values: [2] }));
+  });
+
+  it('throws on invalid limits', async () => {
+    await expect(db.paginate(sql`SELECT 1`, { id: 'asc' }, { limit: 0 })).rejects.toThrowError(
+      'paginate requires a positive integer limit.',
+    );
+  });
+});
+
 describe('QueryHelper transactions', () => {
   it('restores transaction state when COMMIT fails', async () => {
     const calls: string[] = [];
@@ -110,7 +421,51 @@ describe('QueryHelper transactions', () => {
 
     await helper.query('ok');
 
-    expect(calls).toStrictEqual(['BEGIN', 'ok', 'nest-ok', 'ROLLBACK', 'ok']);
+    expect(calls).toStrictEqual([
+      'BEGIN',
+      'ok',
+      'SAVEPOINT sp_1',
+      'nest-ok',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'ROLLBACK',
+      'ok',
+    ]);
+  });
+
+  it('runs concurrent nested transactions one at a time', async () => {
+    const calls: string[] = [];
+
+    const helper = new QueryHelper({
+      async query({ text }: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+        calls.push(text);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return { rows: [], rowCount: 0 };
+      },
+    });
+
+    await helper.begin(async (conn) => {
+      await Promise.all([
+        conn.begin(async (conn) => {
+          await conn.query('A1');
+          await conn.begin(async (conn) => conn.query('A2'));
+        }),
+        conn
+          .begin(async (conn) => {
+            await conn.query('B');
+            throw new Error('error');
+          })
+          .catch(() => undefined),
+        conn.begin(async (conn) => conn.query('C')),
+      ]);
+    });
+
+    expect(calls).toStrictEqual([
+      'BEGIN',
+      ...['SAVEPOINT sp_1', 'A1', 'SAVEPOINT sp_2', 'A2', 'RELEASE SAVEPOINT sp_2', 'RELEASE SAVEPOINT sp_1'],
+      ...['SAVEPOINT sp_3', 'B', 'ROLLBACK TO SAVEPOINT sp_3'],
+      ...['SAVEPOINT sp_4', 'C', 'RELEASE SAVEPOINT sp_4'],
+      'COMMIT',
+    ]);
   });
 
   it('handles concurrent nested queries properly', async () => {
@@ -205,3 +560,553 @@ describe('QueryHelper transactions', () => {
     expect(calls).toStrictEqual(['SET ROLE guest', 'HELLO', 'SET ROLE NONE']);
   });
 });
+
+describe('QueryHelper transaction options', () => {
+  it('emits the transaction modes', async () => {
+    const { db, calls } = makeDb({ pool: true });
+
+    await db.begin({ isolationLevel: 'SERIALIZABLE', readOnly: true, deferrable: true }, async () => {});
+    await db.begin({ isolationLevel: 'READ COMMITTED', readOnly: false }, async () => {});
+
+    expect(calls).toStrictEqual([
+      'BEGIN ISOLATION LEVEL SERIALIZABLE, READ ONLY, DEFERRABLE',
+      'COMMIT',
+      'release',
+      'BEGIN ISOLATION LEVEL READ COMMITTED, READ WRITE',
+      'COMMIT',
+      'release',
+    ]);
+  });
+
+  it('validates the transaction modes', async () => {
+    const { db, calls } = makeDb({ pool: true });
+
+    await expect(db.begin({ isolationLevel: 'CHAOS' as never }, async () => {})).rejects.toThrowError(
+      "Invalid isolation level: 'CHAOS'.",
+    );
+    await expect(db.begin(async (conn) => conn.begin({ readOnly: true }, async () => {}))).rejects.toThrowError(
+      'Transaction modes cannot be set on a nested transaction.',
+    );
+    expect(calls).toStrictEqual(['BEGIN', 'ROLLBACK', 'release']);
+  });
+
+  it('sets the settings local to the transaction', async () => {
+    const executed: { text: string; values: unknown[] }[] = [];
+    const db = new QueryHelper({
+      async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+        executed.push({ text: cfg.text, values: cfg.values });
+        return { rows: [], rowCount: 0 };
+      },
+    });
+
+    await db.begin({ settings: { 'app.tenant_id': "t'1", statement_timeout: 5000 } }, async (conn) => {
+      await conn.query('HELLO');
+    });
+
+    expect(executed).toStrictEqual([
+      { text: 'BEGIN', values: [] },
+      {
+        text: 'SELECT set_config($1, $2, true), set_config($3, $4, true)',
+        values: ['app.tenant_id', "t'1", 'statement_timeout', '5000'],
+      },
+      { text: 'HELLO', values: [] },
+      { text: 'COMMIT', values: [] },
+    ]);
+  });
+
+  it('resets the settings without a transaction', async () => {
+    const { db, calls } = makeDb({ pool: true });
+
+    await expect(
+      db.begin({ transaction: false, role: 'guest', settings: { 'app.user_id': 1 } }, async () => {
+        throw new Error('error');
+      }),
+    ).rejects.toThrowError('error');
+
+    expect(calls).toStrictEqual([
+      'SET ROLE guest',
+      'SELECT set_config($1, $2, false)',
+      'RESET app.user_id',
+      'SET ROLE NONE',
+      'release',
+    ]);
+  });
+
+  it('rolls back when the settings fail', async () => {
+    const { db, calls } = makeDb({
+      pool: true,
+      fail: (text) => text.startsWith('SELECT set_config') && new Error('invalid value'),
+    });
+
+    await expect(db.begin({ settings: { lock_timeout: 'x' } }, async () => {})).rejects.toThrowError('invalid value');
+    await expect(
+      db.begin(async (conn) => conn.begin({ settings: { lock_timeout: '1s' } }, async () => {})),
+    ).rejects.toThrowError('Settings cannot be set on a nested transaction.');
+
+    expect(calls).toStrictEqual([
+      ...['BEGIN', 'SELECT set_config($1, $2, true)', 'ROLLBACK', 'release'],
+      ...['BEGIN', 'ROLLBACK', 'release'],
+    ]);
+  });
+
+  it('releases the connection when BEGIN or SET ROLE fails', async () => {
+    const { db, calls } = makeDb({
+      pool: true,
+      fail: (text) =>
+        (text.startsWith('BEGIN') && new Error('BEGIN failed')) ||
+        (text === 'SET ROLE nobody' && new Error('role does not exist')),
+    });
+
+    await expect(db.begin(async () => {})).rejects.toThrowError('BEGIN failed');
+    await expect(db.begin({ role: 'guest' }, async () => {})).rejects.toThrowError('BEGIN failed');
+    await expect(db.begin({ transaction: false, role: 'nobody' }, async () => {})).rejects.toThrowError(
+      'role does not exist',
+    );
+
+    expect(calls).toStrictEqual([
+      ...['BEGIN', 'release'],
+      ...['SET ROLE guest', 'BEGIN', 'SET ROLE NONE', 'release'],
+      ...['SET ROLE nobody', 'release'],
+    ]);
+  });
+
+  it('rejects the settings and the role of a nested begin without a savepoint', async () => {
+    const { db, calls } = makeDb({ pool: true });
+
+    await expect(
+      db.begin(async (conn) => conn.begin({ transaction: false, settings: { lock_timeout: '1s' } }, async () => {})),
+    ).rejects.toThrowError('Settings cannot be set on a nested transaction.');
+    await expect(
+      db.begin({ transaction: false }, async (conn) =>
+        conn.begin({ settings: { lock_timeout: '1s' } }, async () => {}),
+      ),
+    ).rejects.toThrowError('Settings cannot be set on a nested transaction.');
+    await expect(db.begin(async (conn) => conn.begin({ role: 'guest' }, async () => {}))).rejects.toThrowError(
+      'Role cannot be set on a nested transaction.',
+    );
+
+    expect(calls).toStrictEqual([...['BEGIN', 'ROLLBACK', 'release'], 'release', ...['BEGIN', 'ROLLBACK', 'release']]);
+  });
+
+  it('retries on serialization failures with a new connection', async () => {
+    let failures = 2;
+    const { db, calls } = makeDb({
+      pool: true,
+      fail: (text) =>
+        text === 'COMMIT' && failures-- > 0 ? Object.assign(new Error('could not serialize'), { code: '40001' }) : null,
+    });
+
+    let attempts = 0;
+    const backoff = vi.fn(() => 0);
+    await expect(
+      db.begin({ isolationLevel: 'SERIALIZABLE', retry: { retries: 2, backoff } }, async () => ++attempts),
+    ).resolves.toBe(3);
+
+    expect(backoff.mock.calls).toStrictEqual([[1], [2]]);
+    expect(calls.filter((x) => x === 'release')).toHaveLength(3);
+  });
+
+  it('retries on deadlocks thrown by the callback', async () => {
+    const { db, calls } = makeDb({ pool: true });
+
+    let attempts = 0;
+    const result = db.begin({ retry: { backoff: 0 } }, async (conn) => {
+      await conn.query('UPDATE');
+      if (++attempts < 3) throw Object.assign(new Error('deadlock detected'), { code: '40P01' });
+      return attempts;
+    });
+
+    await expect(result).resolves.toBe(3);
+    expect(calls).toStrictEqual([
+      ...['BEGIN', 'UPDATE', 'ROLLBACK', 'release'],
+      ...['BEGIN', 'UPDATE', 'ROLLBACK', 'release'],
+      ...['BEGIN', 'UPDATE', 'COMMIT', 'release'],
+    ]);
+  });
+
+  it('gives up after the retries, or on other errors', async () => {
+    const serializationFailure = Object.assign(new Error('could not serialize'), { code: '40001' });
+
+    let attempts = 0;
+    await expect(
+      makeDb({ pool: true }).db.begin({ retry: { retries: 1, backoff: 0 } }, async () => {
+        attempts++;
+        throw serializationFailure;
+      }),
+    ).rejects.toBe(serializationFailure);
+    expect(attempts).toBe(2);
+
+    attempts = 0;
+    await expect(
+      makeDb({ pool: true }).db.begin({ retry: true }, async () => {
+        attempts++;
+        throw new Error('other');
+      }),
+    ).rejects.toThrowError('other');
+    expect(attempts).toBe(1);
+
+    attempts = 0;
+    await expect(
+      makeDb({ pool: true }).db.begin(async () => {
+        attempts++;
+        throw serializationFailure;
+      }),
+    ).rejects.toBe(serializationFailure);
+    expect(attempts).toBe(1);
+  });
+
+  it('does not retry once committed', async () => {
+    const serializationFailure = Object.assign(new Error('could not serialize'), { code: '40001' });
+    const { db, calls } = makeDb({
+      pool: true,
+      fail: (text) => text === 'SET ROLE NONE' && serializationFailure,
+      onHookError: () => {},
+    });
+
+    let attempts = 0;
+    await expect(
+      db.begin({ role: 'guest', retry: { retries: 1, backoff: 0 } }, async (conn) => {
+        attempts++;
+        conn.onCommit(() => {
+          throw serializationFailure;
+        });
+      }),
+    ).rejects.toBe(serializationFailure);
+
+    expect(attempts).toBe(1);
+    expect(calls).toStrictEqual(['SET ROLE guest', 'BEGIN', 'COMMIT', 'SET ROLE NONE', 'release']);
+
+    attempts = 0;
+    await expect(
+      makeDb({ pool: true, onHookError: () => {} }).db.begin({ retry: { retries: 1, backoff: 0 } }, async (conn) => {
+        conn.onCommit(() => {
+          throw serializationFailure;
+        });
+        return ++attempts;
+      }),
+    ).resolves.toBe(1);
+  });
+
+  it('does not retry a nested transaction', async () => {
+    const { db } = makeDb({ pool: true });
+
+    let inner = 0;
+    let outer = 0;
+    await expect(
+      db.begin({ retry: { retries: 1, backoff: 0 } }, async (conn) => {
+        outer++;
+        await conn.begin({ retry: 5 }, async () => {
+          inner++;
+          throw Object.assign(new Error('could not serialize'), { code: '40001' });
+        });
+      }),
+    ).rejects.toThrowError('could not serialize');
+    expect([outer, inner]).toStrictEqual([2, 2]);
+  });
+});
+
+describe('QueryHelper ambient transaction', () => {
+  it('routes queries on the outer db to the connection of the transaction', async () => {
+    const { db, executed } = makeDb({ pool: true, ambientTransaction: true });
+
+    const insertUser = (name: string) => db.insert('users', { name });
+
+    await db.begin(async () => {
+      await insertUser('a');
+      await db.begin(async () => {
+        await db.query('INNER');
+      });
+    });
+    await db.query('OUTSIDE');
+
+    expect(executed.map(({ conn, text }) => `${conn}: ${text}`)).toStrictEqual([
+      'client1: BEGIN',
+      'client1: INSERT INTO users (name) VALUES ($1)',
+      'client1: SAVEPOINT sp_1',
+      'client1: INNER',
+      'client1: RELEASE SAVEPOINT sp_1',
+      'client1: COMMIT',
+      'db: OUTSIDE',
+    ]);
+  });
+
+  it('keeps concurrent transactions apart', async () => {
+    const { db, executed } = makeDb({ pool: true, ambientTransaction: true });
+
+    await Promise.all(
+      ['A', 'B'].map((x) =>
+        db.begin(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          await db.query(x);
+        }),
+      ),
+    );
+
+    expect(
+      executed
+        .map(({ conn, text }) => `${conn}: ${text}`)
+        .filter((x) => !/BEGIN|COMMIT/.test(x))
+        .sort(),
+    ).toStrictEqual(['client1: A', 'client2: B']);
+  });
+
+  it('uses the outer db as is when disabled', async () => {
+    const { db, executed } = makeDb({ pool: true });
+
+    await db.begin(async () => {
+      await db.query('HELLO');
+    });
+
+    expect(executed.map(({ conn, text }) => `${conn}: ${text}`)).toStrictEqual([
+      'client1: BEGIN',
+      'db: HELLO',
+      'client1: COMMIT',
+    ]);
+  });
+});
+
+describe('QueryHelper transaction hooks', () => {
+  it('calls onCommit callbacks after COMMIT', async () => {
+    const { db, calls } = makeDb({ pool: true });
+
+    await db.begin(async (conn) => {
+      conn.onCommit(async () => calls.push('committed 1'));
+      conn.onRollback(() => calls.push('rolled back'));
+      await conn.begin(async (conn) => {
+        conn.onCommit(() => calls.push('committed 2'));
+        await conn.query('INNER');
+      });
+      expect(calls).not.toContain('committed 2');
+    });
+
+    expect(calls).toStrictEqual([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'INNER',
+      'RELEASE SAVEPOINT sp_1',
+      'COMMIT',
+      'release',
+      'committed 1',
+      'committed 2',
+    ]);
+  });
+
+  it('reports a throwing onCommit callback and calls the rest', async () => {
+    const onHookError = vi.fn();
+    const { db, calls } = makeDb({ pool: true, onHookError });
+
+    const error = new Error('enqueue failed');
+    await expect(
+      db.begin(async (conn) => {
+        conn.onCommit(() => {
+          throw error;
+        });
+        conn.onCommit(() => calls.push('committed'));
+        return 'ok';
+      }),
+    ).resolves.toBe('ok');
+
+    expect(calls).toStrictEqual(['BEGIN', 'COMMIT', 'release', 'committed']);
+    expect(onHookError.mock.calls).toStrictEqual([[error, 'commit']]);
+  });
+
+  it('emits the errors of the callbacks as warnings by default', async () => {
+    const emitWarning = vi.spyOn(process, 'emitWarning').mockImplementation(() => {});
+    try {
+      const error = new Error('enqueue failed');
+      await makeDb().db.begin(async (conn) => {
+        conn.onCommit(() => {
+          throw error;
+        });
+      });
+      expect(emitWarning).toHaveBeenCalledWith(error, { code: 'QUERY_WEAVER_HOOK_ERROR' });
+    } finally {
+      emitWarning.mockRestore();
+    }
+  });
+
+  it('calls onRollback callbacks after ROLLBACK', async () => {
+    const onHookError = vi.fn();
+    const { db, calls } = makeDb({ pool: true, onHookError });
+
+    await expect(
+      db.begin(async (conn) => {
+        conn.onCommit(() => calls.push('committed'));
+        conn.onRollback(() => calls.push('rolled back 1'));
+        conn.onRollback(() => {
+          throw new Error('ignored');
+        });
+        conn.onRollback(() => calls.push('rolled back 2'));
+        throw new Error('error');
+      }),
+    ).rejects.toThrowError('error');
+
+    expect(calls).toStrictEqual(['BEGIN', 'ROLLBACK', 'release', 'rolled back 1', 'rolled back 2']);
+    expect(onHookError.mock.calls).toStrictEqual([[new Error('ignored'), 'rollback']]);
+  });
+
+  it('calls onRollback callbacks when COMMIT fails', async () => {
+    const { db, calls } = makeDb({ pool: true, fail: (text) => text === 'COMMIT' && new Error('COMMIT failed') });
+
+    await expect(
+      db.begin(async (conn) => {
+        conn.onCommit(() => calls.push('committed'));
+        conn.onRollback(() => calls.push('rolled back'));
+      }),
+    ).rejects.toThrowError('COMMIT failed');
+
+    expect(calls).toStrictEqual(['BEGIN', 'COMMIT', 'release', 'rolled back']);
+  });
+
+  it('discards onCommit callbacks of a rolled back savepoint', async () => {
+    const { db, calls } = makeDb({ pool: true });
+
+    await db.begin(async (conn) => {
+      conn.onCommit(() => calls.push('outer committed'));
+      await conn
+        .begin(async (conn) => {
+          conn.onCommit(() => calls.push('inner committed'));
+          conn.onRollback(() => calls.push('inner rolled back'));
+          throw new Error('error');
+        })
+        .catch(() => undefined);
+      expect(calls).not.toContain('inner rolled back');
+    });
+
+    expect(calls).toStrictEqual([
+      'BEGIN',
+      'SAVEPOINT sp_1',
+      'ROLLBACK TO SAVEPOINT sp_1',
+      'COMMIT',
+      'release',
+      'outer committed',
+      'inner rolled back',
+    ]);
+  });
+
+  it('requires a transaction', async () => {
+    const { db } = makeDb({ pool: true });
+
+    expect(() => db.onCommit(() => {})).toThrowError('onCommit requires a transaction.');
+    expect(() => db.onRollback(() => {})).toThrowError('onRollback requires a transaction.');
+  });
+
+  it('registers on the ambient transaction', async () => {
+    const { db, calls } = makeDb({ ambientTransaction: true });
+
+    await db.begin(async () => {
+      db.onCommit(() => calls.push('committed'));
+    });
+    expect(calls).toStrictEqual(['BEGIN', 'COMMIT', 'committed']);
+  });
+});
+
+describe('QueryHelper copyFrom', () => {
+  async function* rows() {
+    yield { id: 1, name: 'a\tb' };
+    yield { id: 2, name: null };
+  }
+
+  it('streams rows in the text format', async () => {
+    const { db, calls, copied } = makeDb({ trace: true });
+
+    await expect(db.copyFrom('public.users', ['id', 'name'], rows())).resolves.toBe(2);
+    expect(copied).toStrictEqual([
+      { conn: 'db', text: 'COPY public.users (id, name) FROM STDIN', data: '1\ta\\tb\n2\t\\N\n' },
+    ]);
+    expect(calls).toStrictEqual([
+      'before COPY public.users (id, name) FROM STDIN',
+      'after COPY public.users (id, name) FROM STDIN 2',
+    ]);
+  });
+
+  it('streams rows in the CSV format', async () => {
+    const { db, copied } = makeDb();
+
+    await db.copyFrom('users', ['id', 'name'], [{ id: 1, name: '' }], { format: 'csv' });
+    expect(copied).toStrictEqual([
+      { conn: 'db', text: 'COPY users (id, name) FROM STDIN WITH (FORMAT csv)', data: '1,""\n' },
+    ]);
+  });
+
+  it('uses a connection of its own, or the one of the transaction', async () => {
+    const { db, calls, copied } = makeDb({ pool: true });
+
+    await db.copyFrom('users', ['id'], [{ id: 1 }]);
+    await db.begin(async (conn) => {
+      await conn.copyFrom('users', ['id'], [{ id: 2 }]);
+    });
+
+    expect(copied.map((x) => x.conn)).toStrictEqual(['client1', 'client2']);
+    expect(calls).toStrictEqual(['release', 'BEGIN', 'COMMIT', 'release']);
+  });
+
+  it('calls onError hook and rejects', async () => {
+    const errors: unknown[] = [];
+    const db = withQueryHelper(
+      {},
+      {
+        copyStream: async () => {
+          throw new Error('copy failed');
+        },
+        onError: (_, e) => errors.push(e),
+      },
+    );
+
+    await expect(db.copyFrom('users', ['id'], [{ id: 1 }])).rejects.toThrowError('copy failed');
+    expect(errors).toHaveLength(1);
+  });
+
+  it('validates the arguments', async () => {
+    await expect(withQueryHelper({}).copyFrom('users', ['id'], [])).rejects.toThrowError(
+      'Copy stream adapter is not configured.',
+    );
+    await expect(makeDb().db.copyFrom('users', [], [])).rejects.toThrowError('copyFrom requires at least one column.');
+  });
+
+  it('drives a pg-copy-streams stream', async () => {
+    const makeClient = () => {
+      const stream = Object.assign(new EventEmitter(), {
+        text: '',
+        data: [] as string[],
+        rowCount: undefined as number | undefined,
+        destroyed: undefined as Error | undefined,
+        write(chunk: string) {
+          stream.data.push(chunk);
+          setImmediate(() => stream.emit('drain'));
+          return false;
+        },
+        end() {
+          stream.rowCount = stream.data.join('').split('\n').length - 1;
+          setImmediate(() => stream.emit('finish'));
+        },
+        destroy(e: Error) {
+          stream.destroyed = e;
+          setImmediate(() => stream.emit('error', e));
+        },
+      });
+      return { stream, query: ({ text }: { text: string }) => Object.assign(stream, { text }) };
+    };
+    const adapter = QueryHelper.pgCopyStreams((text) => ({ text }));
+
+    const client = makeClient();
+    const db = withQueryHelper(client, { copyStream: adapter });
+    await expect(db.copyFrom('t', ['id'], [{ id: 1 }, { id: 2 }])).resolves.toBe(2);
+    expect(client.stream.text).toBe('COPY t (id) FROM STDIN');
+    expect(client.stream.data).toStrictEqual(['1\n2\n']);
+
+    const failing = makeClient();
+    async function* broken() {
+      yield { id: 1 };
+      throw new Error('broken source');
+    }
+    await expect(
+      withQueryHelper(failing, { copyStream: adapter }).copyFrom('t', ['id'], broken()),
+    ).rejects.toThrowError('broken source');
+    expect(failing.stream.destroyed?.message).toBe('broken source');
+
+    await expect(adapter.call({}, { text: '', values: [] }, encodeCopyRows([], []))).rejects.toThrowError(
+      'pg-copy-streams adapter requires a query function.',
+    );
+  });
+});
@@ -1,18 +1,37 @@
 import { beforeEach, describe, expect, it } from 'vitest';
 import {
+  bigint,
+  camelCase,
+  mapKeys,
+  snakeCase,
   buildDelete,
+  buildKeyset,
   buildInsert,
   buildKeys,
   buildUpdate,
   buildUpsert,
   buildValues,
+  bytea,
+  decodeCursor,
+  defineTable,
   DELETE_ALL_WITHOUT_FORCE_ERROR,
+  encodeCursor,
   isWhereEmpty,
   json,
+  mssqlDialect,
+  mysqlDialect,
   OR,
+  ORDER_BY,
+  registerTypeEncoder,
+  select,
   sql,
+  sqliteDialect,
+  timestamptz,
+  typed,
   UPDATE_ALL_WITHOUT_FORCE_ERROR,
+  uuid,
   WHERE,
+  WITH,
   withQueryHelper,
   type QueryResult,
 } from '../src';
@@ -56,6 +75,78 @@ describe('sql tag basics', () => {
   });
 });
 
+describe('sql namespace', () => {
+  it('exposes the builders', () => {
+    expect(sql.insert('users', { id: 1 }).text).toBe('INSERT INTO users (id) VALUES ($1)');
+    expect(sql.update('users', { name: 'a' }, { id: 1 }).text).toBe('UPDATE users SET name = $1 WHERE ((id = $2))');
+    expect(sql.delete('users', { id: 1 }).text).toBe('DELETE FROM users WHERE ((id = $1))');
+    expect(sql.upsert('users', { id: 1 }, ['id']).text).toBe(
+      'INSERT INTO users (id) VALUES ($1) ON CONFLICT (id) DO NOTHING',
+    );
+    expect(sql.values([[1, 2]]).text).toBe('VALUES ($1, $2)');
+    expect(sql.keys({ a: 1, b: 2 }).text).toBe('(a, b)');
+    expect(sql.where({ a: 1 }, sql.or({ b: 2 }, sql.and({ c: 3 }))).text).toBe(
+      'WHERE ((a = $1) AND (((b = $2) OR (((c = $3))))))',
+    );
+    expect(sql`${sql.limit(1)} ${sql.offset(2)}`.text).toBe('LIMIT $1 OFFSET $2');
+    expect(sql.union('SELECT 1', 'SELECT 2').text).toBe('SELECT 1 UNION SELECT 2');
+    expect(sql`SELECT ${sql.json({ a: 1 })}, ${sql.ident('t.c')}, ${sql.raw('NOW()')}`.embed).toBe(
+      `SELECT '{"a":1}', t.c, NOW()`,
+    );
+  });
+});
+
+describe('typed values', () => {
+  it('binds values with casts', () => {
+    const date = new Date('2024-01-02T03:04:05.000Z');
+    const id = '123e4567-e89b-12d3-a456-426614174000';
+    const q = sql`SELECT ${timestamptz(date)}, ${bytea(new Uint8Array([0xde, 0xad]))}, ${bigint(12345678901234567890n)}, ${uuid(id)}, ${typed(1, 'numeric(10, 2)')}`;
+
+    expect(q.text).toBe('SELECT $1::timestamptz, $2::bytea, $3::bigint, $4::uuid, $5::numeric(10, 2)');
+    expect(q.values).toStrictEqual([
+      '2024-01-02T03:04:05.000Z',
+      new Uint8Array([0xde, 0xad]),
+      '12345678901234567890',
+      id,
+      1,
+    ]);
+    expect(q.embed).toBe(
+      `SELECT '2024-01-02T03:04:05.000Z'::timestamptz, '\\xdead'::bytea, '12345678901234567890'::bigint, '${id}'::uuid, '1'::numeric(10, 2)`,
+    );
+  });
+
+  it('uses CAST for the other dialects', () => {
+    const q = sql`SELECT ${bytea(new Uint8Array([0xde, 0xad]))}`;
+    expect(q.compile(mysqlDialect)).toMatchObject({
+      text: 'SELECT CAST(? AS bytea)',
+      embed: "SELECT CAST(X'dead' AS bytea)",
+    });
+  });
+
+  it('does not cast values in comments', () => {
+    expect(sql`SELECT 1 -- ${typed(1, 'int')}`.text).toBe('SELECT 1 -- ');
+  });
+
+  it('validates types and values', () => {
+    expect(() => typed(1, 'int; DROP TABLE users')).toThrowError("Invalid type name: 'int; DROP TABLE users'.");
+    expect(() => uuid('not-a-uuid')).toThrowError("Invalid UUID: 'not-a-uuid'.");
+    expect(sql`${uuid(null)}`.embed).toBe('NULL::uuid');
+  });
+
+  it('uses registered encoders', () => {
+    registerTypeEncoder('point', {
+      encode: (v) => {
+        const { x, y } = v as { x: number; y: number };
+        return `(${x},${y})`;
+      },
+    });
+
+    const q = sql`SELECT ${typed({ x: 1, y: 2 }, 'point')}`;
+    expect(q.values).toStrictEqual(['(1,2)']);
+    expect(q.embed).toBe("SELECT '(1,2)'::point");
+  });
+});
+
 describe('json injector', () => {
   it('produces correct embedding and parameters', async () => {
     const id = 10;
@@ -90,7 +181,46 @@ describe('WHERE builder', () => {
       'SELECT * FROM foobar WHERE ((a = $1) AND (b = $2) AND (c IS UNKNOWN) AND (d BETWEEN $3 AND $4) AND (e IS NULL) AND (f = ANY ($5)))',
     );
     expect(q.embed).toBe(
-      "SELECT * FROM foobar WHERE ((a = '10') AND (b = 'string') AND (c IS UNKNOWN) AND (d BETWEEN '1' AND '5') AND (e IS NULL) AND (f = ANY (ARRAY['1','2','3','4','5'])))",
+      `SELECT * FROM foobar WHERE ((a = '10') AND (b = 'string') AND (c IS UNKNOWN) AND (d BETWEEN '1' AND '5') AND (e IS NULL) AND (f = ANY ('{"1","2","3","4","5"}')))`,
+    );
+  });
+
+  it('compiles operator objects', () => {
+    const from = new Date('2024-01-01T00:00:00Z');
+    const to = new Date('2024-02-01T00:00:00Z');
+    const clause = WHERE({
+      age: { gte: 18, lt: 65 },
+      name: { ilike: 'a%' },
+      deleted_at: { not: null },
+      id: { notIn: [1, 2] },
+      tags: { contains: ['x'] },
+      period: { between: [from, to] },
+      status: { eq: undefined, ne: 'banned' },
+    });
+
+    expect(clause.text).toBe(
+      'WHERE ((age >= $1) AND (age < $2) AND (name ILIKE $3) AND (deleted_at IS NOT NULL) AND (id <> ALL ($4)) ' +
+        'AND (tags @> $5) AND (period BETWEEN $6 AND $7) AND (status <> $8))',
+    );
+    expect(clause.values).toStrictEqual([18, 65, 'a%', [1, 2], ['x'], from, to, 'banned']);
+  });
+
+  it('handles empty and null operator values', () => {
+    expect(WHERE({ id: { in: [] } }).text).toBe('WHERE ((FALSE))');
+    expect(WHERE({ id: { notIn: [] } }).text).toBe('WHERE ((TRUE))');
+    expect(WHERE({ id: { eq: null } }).text).toBe('WHERE ((id IS NULL))');
+    expect(isWhereEmpty({ id: { gt: undefined } })).toBe(true);
+  });
+
+  it('treats objects with non-operator keys as values', () => {
+    expect(WHERE({ data: { a: 1 } }).text).toBe('WHERE ((data = $1))');
+    expect(WHERE({ data: { gt: 1, a: 1 } }).values).toStrictEqual([{ gt: 1, a: 1 }]);
+  });
+
+  it('throws on malformed operator values', () => {
+    expect(() => WHERE({ id: { in: 1 as unknown as number[] } })).toThrowError("Operator 'in' requires an array.");
+    expect(() => WHERE({ id: { between: [1] as unknown as [number, number] } })).toThrowError(
+      "Operator 'between' requires a pair of values.",
     );
   });
 
@@ -175,6 +305,375 @@ describe('builders', () => {
   });
 });
 
+describe('upsert options', () => {
+  const row = { id: 1, name: 'a', count: 1 };
+
+  it('targets a constraint or a partial index', () => {
+    expect(buildUpsert('t', row, { constraint: 't_pkey' }).text).toBe(
+      'INSERT INTO t (id, name, count) VALUES ($1, $2, $3) ON CONFLICT ON CONSTRAINT t_pkey DO UPDATE SET id = EXCLUDED.id, name = EXCLUDED.name, count = EXCLUDED.count',
+    );
+    expect(buildUpsert('t', row, { keys: ['name'], where: { deleted_at: null }, update: ['count'] }).text).toBe(
+      'INSERT INTO t (id, name, count) VALUES ($1, $2, $3) ON CONFLICT (name) WHERE ((deleted_at IS NULL)) DO UPDATE SET count = EXCLUDED.count',
+    );
+  });
+
+  it('selects the columns to update', () => {
+    expect(buildUpsert('t', row, { keys: ['id'], exclude: ['name'] }).text).toBe(
+      'INSERT INTO t (id, name, count) VALUES ($1, $2, $3) ON CONFLICT (id) DO UPDATE SET count = EXCLUDED.count',
+    );
+
+    const q = buildUpsert('t', row, {
+      keys: ['id'],
+      set: { count: sql`t.count + EXCLUDED.count`, updated_by: 'x' },
+      updateWhere: sql`t.name <> EXCLUDED.name`,
+    });
+    expect(q.text).toBe(
+      'INSERT INTO t (id, name, count) VALUES ($1, $2, $3) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name, count = t.count + EXCLUDED.count, updated_by = $4 WHERE ((t.name <> EXCLUDED.name))',
+    );
+    expect(q.values).toStrictEqual([1, 'a', 1, 'x']);
+  });
+
+  it('does nothing on demand', () => {
+    expect(buildUpsert('t', row, { keys: ['id'], doNothing: true }).text).toBe(
+      'INSERT INTO t (id, name, count) VALUES ($1, $2, $3) ON CONFLICT (id) DO NOTHING',
+    );
+    expect(buildUpsert('t', row, { doNothing: true }).text).toBe(
+      'INSERT INTO t (id, name, count) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+    );
+    expect(buildUpsert('t', row, { doNothing: true }).compile(mysqlDialect).text).toBe(
+      'INSERT INTO t (id, name, count) VALUES (?, ?, ?) ON DUPLICATE KEY UPDATE id = id',
+    );
+  });
+
+  it('builds for the other dialects', () => {
+    const q = buildUpsert('t', row, { keys: ['id'], set: { count: sql`t.count + 1` }, updateWhere: { 'target.a': 1 } });
+    expect(q.compile(mssqlDialect).text).toBe(
+      'MERGE INTO t AS target USING (VALUES (@p1, @p2, @p3)) AS source (id, name, count) ON (target.id = source.id) ' +
+        'WHEN MATCHED AND ((target.a = @p4)) THEN UPDATE SET name = source.name, count = t.count + 1 ' +
+        'WHEN NOT MATCHED THEN INSERT (id, name, count) VALUES (source.id, source.name, source.count);',
+    );
+    expect(() => q.compile(mysqlDialect)).toThrowError("Upsert option 'updateWhere' is not supported by mysql.");
+    for (const dialect of [sqliteDialect, mysqlDialect, mssqlDialect]) {
+      expect(() => buildUpsert('t', row, { constraint: 't_pkey' }).compile(dialect)).toThrowError(
+        `Upsert option 'constraint' is not supported by ${dialect.name}.`,
+      );
+    }
+
+    expect(buildUpsert('t', row, ['id'], undefined, { returning: ['id'] }).compile(mssqlDialect).text).toBe(
+      'MERGE INTO t AS target USING (VALUES (@p1, @p2, @p3)) AS source (id, name, count) ON (target.id = source.id) ' +
+        'WHEN MATCHED THEN UPDATE SET name = source.name, count = source.count ' +
+        'WHEN NOT MATCHED THEN INSERT (id, name, count) VALUES (source.id, source.name, source.count) OUTPUT inserted.id;',
+    );
+    expect(buildUpsert('t', row, ['id'], undefined, { returning: '*' }).compile(mssqlDialect).text).toMatch(
+      / OUTPUT inserted\.\*;$/,
+    );
+  });
+
+  it('validates the options', () => {
+    expect(() => buildUpsert('t', row, { keys: ['id'], constraint: 't_pkey' })).toThrowError(
+      'buildUpsert requires either conflict keys or a constraint.',
+    );
+    expect(() => buildUpsert('t', row, { update: ['name'] })).toThrowError(
+      'buildUpsert requires at least one conflict key.',
+    );
+    expect(() => buildUpsert('t', row, { constraint: 't_pkey', where: { deleted_at: null } })).toThrowError(
+      'buildUpsert requires conflict keys for where, not a constraint.',
+    );
+    expect(() => buildUpsert('t', row, { keys: ['id'], update: ['name', 'updated_at'] })).toThrowError(
+      "buildUpsert cannot update the column 'updated_at' that is not inserted.",
+    );
+    expect(buildUpsert('t', row, { keys: ['id'], update: ['updated_at'], set: { updated_at: sql`now()` } }).text).toBe(
+      'INSERT INTO t (id, name, count) VALUES ($1, $2, $3) ON CONFLICT (id) DO UPDATE SET updated_at = now()',
+    );
+  });
+});
+
+describe('RETURNING option', () => {
+  it('emits quoted identifiers', () => {
+    expect(buildInsert('t', { a: 1 }, undefined, { returning: ['id', 'created at'] }).text).toBe(
+      'INSERT INTO t (a) VALUES ($1) RETURNING id, "created at"',
+    );
+    expect(buildUpdate('t', { a: 1 }, { id: 1 }, undefined, { returning: '*' }).text).toBe(
+      'UPDATE t SET a = $1 WHERE ((id = $2)) RETURNING *',
+    );
+    expect(buildDelete('t', { id: 1 }, undefined, { returning: ['id'] }).text).toBe(
+      'DELETE FROM t WHERE ((id = $1)) RETURNING id',
+    );
+    expect(buildUpsert('t', { id: 1, a: 2 }, ['id'], 'WHERE t.a <> EXCLUDED.a', { returning: ['id'] }).text).toBe(
+      'INSERT INTO t (id, a) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET a = EXCLUDED.a WHERE t.a <> EXCLUDED.a RETURNING id',
+    );
+  });
+
+  it('maps the columns by the key transform', () => {
+    expect(buildInsert('t', { userId: 1 }, undefined, { returning: ['userId'], keyTransform: 'snake_case' }).text).toBe(
+      'INSERT INTO t (user_id) VALUES ($1) RETURNING user_id',
+    );
+  });
+});
+
+describe('UNNEST bulk mode', () => {
+  const rows = [
+    { id: 1, name: 'a', at: new Date(0) },
+    { id: 2, name: null, at: new Date(1000) },
+  ];
+
+  it('binds an array per column', () => {
+    const q = buildInsert('t', rows, undefined, { unnest: { id: 'int', name: 'text', at: 'timestamptz' } });
+    expect(q.text).toBe('INSERT INTO t (id, name, at) SELECT * FROM UNNEST($1::int[], $2::text[], $3::timestamptz[])');
+    expect(q.values).toStrictEqual([
+      [1, 2],
+      ['a', null],
+      ['1970-01-01T00:00:00.000Z', '1970-01-01T00:00:01.000Z'],
+    ]);
+  });
+
+  it('takes the types from the table definition', () => {
+    const users = defineTable('users', { id: 'int8', name: { type: 'text', nullable: true } });
+    const q = buildUpsert(users, [{ id: 1, name: 'a' }], ['id'], undefined, { unnest: true, returning: ['id'] });
+    expect(q.text).toBe(
+      'INSERT INTO users (id, name) SELECT * FROM UNNEST($1::int8[], $2::text[]) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name RETURNING id',
+    );
+    expect(q.values).toStrictEqual([['1'], ['a']]);
+  });
+
+  it('maps the type hints by the key transform', () => {
+    const q = buildInsert('t', [{ userId: 1 }], undefined, { unnest: { userId: 'int' }, keyTransform: 'snake_case' });
+    expect(q.text).toBe('INSERT INTO t (user_id) SELECT * FROM UNNEST($1::int[])');
+  });
+
+  it('rejects missing types, array columns, fragments and unsupported dialects', () => {
+    expect(() => buildInsert('t', rows, undefined, { unnest: { id: 'int' } })).toThrowError(
+      "UNNEST requires the type of column 'name'.",
+    );
+    expect(() => buildInsert('t', [{ tags: ['a'] }], undefined, { unnest: { tags: 'text[]' } })).toThrowError(
+      "UNNEST does not support the array column 'tags'.",
+    );
+    expect(() => buildInsert('t', [{ at: sql`now()` }], undefined, { unnest: { at: 'timestamptz' } })).toThrowError(
+      "UNNEST does not support the QueryFragment value of column 'at'.",
+    );
+    expect(() =>
+      buildUpsert('t', [{ id: 1 }], ['id'], undefined, { unnest: { id: 'int' } }).compile(mysqlDialect),
+    ).toThrowError("Upsert option 'unnest' is not supported by mysql.");
+    for (const dialect of [mysqlDialect, sqliteDialect, mssqlDialect]) {
+      expect(() => buildInsert('t', [{ id: 1 }], undefined, { unnest: { id: 'int' } }).compile(dialect)).toThrowError(
+        `UNNEST is not supported by ${dialect.name}.`,
+      );
+    }
+  });
+});
+
+describe('key transform', () => {
+  it('converts between camelCase and snake_case', () => {
+    expect(snakeCase('createdAt')).toBe('created_at');
+    expect(snakeCase('userID')).toBe('user_id');
+    expect(snakeCase('HTTPServer')).toBe('http_server');
+    expect(camelCase('created_at')).toBe('createdAt');
+    expect(camelCase('_page')).toBe('_page');
+  });
+
+  it('maps field names of the builders', () => {
+    const opts = { keyTransform: 'snake_case' as const };
+
+    expect(buildInsert('users', { userId: 1, displayName: 'a' }, undefined, opts).text).toBe(
+      'INSERT INTO users (user_id, display_name) VALUES ($1, $2)',
+    );
+    expect(buildUpdate('users', { displayName: 'a' }, { userId: 1 }, undefined, opts).text).toBe(
+      'UPDATE users SET display_name = $1 WHERE ((user_id = $2))',
+    );
+    expect(buildDelete('users', [{ userId: 1 }, sql`deletedAt IS NULL`], undefined, opts).text).toBe(
+      'DELETE FROM users WHERE ((user_id = $1) AND (deletedAt IS NULL))',
+    );
+    expect(buildUpsert('users', { userId: 1, displayName: 'a' }, ['userId'], undefined, opts).text).toBe(
+      'INSERT INTO users (user_id, display_name) VALUES ($1, $2) ON CONFLICT (user_id) DO UPDATE SET display_name = EXCLUDED.display_name',
+    );
+  });
+
+  it('maps keys of WHERE conditions', () => {
+    const q = WHERE(
+      mapKeys([{ createdAt: { gte: 1 } }, [{ fooBar: 2 }]], 'snake_case'),
+      OR(mapKeys({ bC: 3 }, 'snake_case')),
+    );
+    expect(q.text).toBe('WHERE ((created_at >= $1) AND (foo_bar = $2) AND (((b_c = $3))))');
+
+    // fragments are kept as is
+    expect(WHERE(mapKeys(OR({ bC: 1 }), 'snake_case')).text).toBe('WHERE ((((bC = $1))))');
+
+    const upper = { toColumn: (k: string) => k.toUpperCase(), fromColumn: (c: string) => c.toLowerCase() };
+    expect(WHERE(mapKeys({ id: 1 }, upper)).text).toBe('WHERE ((ID = $1))');
+  });
+});
+
+describe('ORDER BY builder', () => {
+  it('builds from objects and tuples', () => {
+    expect(ORDER_BY({ created_at: 'desc', name: 'asc nulls last', id: undefined }).text).toBe(
+      'ORDER BY created_at DESC, name ASC NULLS LAST',
+    );
+    expect(ORDER_BY([['u.name'], ['id', ' Nulls  First ']]).text).toBe('ORDER BY u.name, id NULLS FIRST');
+  });
+
+  it('renders nothing when empty', () => {
+    expect(ORDER_BY({}).text).toBe('');
+    expect(ORDER_BY([]).text).toBe('');
+    expect(ORDER_BY(undefined).text).toBe('');
+  });
+
+  it('rejects invalid directions', () => {
+    expect(() => ORDER_BY({ id: 'desc; DROP TABLE users' })).toThrowError(
+      "Invalid sort direction: 'desc; DROP TABLE users'.",
+    );
+    expect(() => ORDER_BY({ id: 'descnulls last' })).toThrowError();
+  });
+
+  it('constrains columns to the allow-list', () => {
+    expect(ORDER_BY({ name: 'asc' }, { allow: ['name'] }).text).toBe('ORDER BY name ASC');
+    expect(() => ORDER_BY({ password: 'asc' }, { allow: ['name'] })).toThrowError("Column 'password' is not sortable.");
+  });
+
+  it('works with the SELECT builder', () => {
+    expect(select().from('users').orderBy({ name: 'desc' }, 'id').text).toBe(
+      'SELECT * FROM users ORDER BY name DESC, id',
+    );
+  });
+});
+
+describe('keyset pagination', () => {
+  it('builds the first page without conditions', () => {
+    const keyset = buildKeyset({ created_at: 'desc', id: 'desc' });
+    expect(sql`SELECT * FROM t ${WHERE({ a: 1 }, keyset.where)} ${keyset.orderBy}`.text).toBe(
+      'SELECT * FROM t WHERE ((a = $1)) ORDER BY created_at DESC, id DESC',
+    );
+  });
+
+  it('uses row-value comparison for uniform directions', () => {
+    const { cursorOf } = buildKeyset({ created_at: 'desc', id: 'desc' });
+    const cursor = cursorOf({ created_at: '2024-01-01', id: 10 });
+
+    const next = buildKeyset({ created_at: 'desc', id: 'desc' }, cursor);
+    expect(sql`${WHERE({ a: 1 }, next.where)} ${next.orderBy}`.text).toBe(
+      'WHERE ((a = $1) AND ((created_at, id) < ($2, $3))) ORDER BY created_at DESC, id DESC',
+    );
+    expect(next.where.values).toStrictEqual(['2024-01-01', 10]);
+
+    const prev = buildKeyset({ created_at: 'desc', id: 'desc' }, cursorOf({ created_at: '2024-01-01', id: 10 }, true));
+    expect(prev.backward).toBe(true);
+    expect(sql`${WHERE(prev.where)} ${prev.orderBy}`.text).toBe(
+      'WHERE (((created_at, id) > ($1, $2))) ORDER BY created_at, id',
+    );
+  });
+
+  it('expands comparisons for mixed directions', () => {
+    const cursor = encodeCursor({ backward: false, values: ['x', 5] });
+    expect(
+      WHERE(
+        buildKeyset(
+          [
+            ['name', 'asc'],
+            ['id', 'desc'],
+          ],
+          cursor,
+        ).where,
+      ).text,
+    ).toBe('WHERE ((((((name > $1))) OR (((name = $2) AND (id < $3))))))');
+  });
+
+  it('round-trips cursors and rejects broken ones', () => {
+    const cursor = encodeCursor({ backward: true, values: ['ユニコード', 1, null] });
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor)).toStrictEqual({ backward: true, values: ['ユニコード', 1, null] });
+
+    expect(() => decodeCursor('!!!')).toThrowError('Invalid cursor.');
+    expect(() => buildKeyset({ id: 'asc' }, encodeCursor({ backward: false, values: [1, 2] }))).toThrowError(
+      'Invalid cursor.',
+    );
+    expect(() => buildKeyset({ id: 'asc nulls last' })).toThrowError('buildKeyset does not support NULLS ordering.');
+  });
+});
+
+describe('SELECT builder', () => {
+  it('builds every clause', () => {
+    const q = select('u.id', 'u.name', sql`count(*) AS n`)
+      .distinct()
+      .from(['users', 'u'])
+      .leftJoin(['orders', 'o'], 'o.user_id = u.id')
+      .where({ 'u.active': true }, sql`u.age >= ${18}`)
+      .groupBy('u.id', 'u.name')
+      .having(sql`count(*) > ${1}`)
+      .orderBy('u.name')
+      .limit(10)
+      .offset(20);
+
+    expect(q.text).toBe(
+      'SELECT DISTINCT u.id, u.name, count(*) AS n FROM users AS u LEFT JOIN orders AS o ON ((o.user_id = u.id)) ' +
+        'WHERE ((u.active = $1) AND (u.age >= $2)) GROUP BY u.id, u.name HAVING ((count(*) > $3)) ORDER BY u.name ' +
+        'LIMIT $4 OFFSET $5',
+    );
+    expect(q.values).toStrictEqual([true, 18, 1, 10, 20]);
+  });
+
+  it('defaults to all columns and omits empty clauses', () => {
+    expect(select().from('users').where({ id: undefined }).text).toBe('SELECT * FROM users');
+    expect(select('u.*').from(['users', 'u']).text).toBe('SELECT u.* FROM users AS u');
+  });
+
+  it('replaces or appends clauses independently', () => {
+    const base = select('id').from('users').where({ active: true });
+    const filtered = base.clone().andWhere({ role: 'admin' }).orderBy('id');
+
+    expect(base.text).toBe('SELECT id FROM users WHERE ((active = $1))');
+    expect(filtered.text).toBe('SELECT id FROM users WHERE ((active = $1) AND (role = $2)) ORDER BY id');
+    expect(filtered.where({ id: 1 }).columns('name').text).toBe('SELECT name FROM users WHERE ((id = $1)) ORDER BY id');
+  });
+
+  it('can be embedded and executed', async () => {
+    const sub = select('user_id').from('orders').where({ status: 'paid' });
+    const q = sql`SELECT * FROM users WHERE id IN (${sub}) AND name = ${'a'}`;
+    expect(q.text).toBe(
+      'SELECT * FROM users WHERE id IN (SELECT user_id FROM orders WHERE ((status = $1))) AND name = $2',
+    );
+
+    await db.query(select().from('users').where({ id: 1 }));
+    expect(db.executed[0]).toMatchObject({ text: 'SELECT * FROM users WHERE ((id = $1))', values: [1] });
+  });
+});
+
+describe('WITH builder', () => {
+  it('keeps placeholder numbering across queries', () => {
+    const q = sql`${WITH({
+      active: sql`SELECT * FROM users WHERE active = ${true}`,
+      'recent orders': select('user_id')
+        .from('orders')
+        .where({ total: { gt: 100 } }),
+    })} SELECT * FROM active WHERE id = ${1}`;
+
+    expect(q.text).toBe(
+      'WITH active AS (SELECT * FROM users WHERE active = $1), "recent orders" AS (SELECT user_id FROM orders WHERE ((total > $2))) SELECT * FROM active WHERE id = $3',
+    );
+    expect(q.values).toStrictEqual([true, 100, 1]);
+  });
+
+  it('supports column lists, materialization, and recursion', () => {
+    const q = WITH(
+      {
+        t: {
+          query: sql`SELECT 1 UNION ALL SELECT n + 1 FROM t WHERE n < ${10}`,
+          columns: ['n'],
+          materialized: false,
+        },
+        u: { query: sql`SELECT * FROM t`, materialized: true },
+      },
+      { recursive: true },
+    );
+
+    expect(q.text).toBe(
+      'WITH RECURSIVE t (n) AS NOT MATERIALIZED (SELECT 1 UNION ALL SELECT n + 1 FROM t WHERE n < $1), u AS MATERIALIZED (SELECT * FROM t)',
+    );
+  });
+
+  it('renders nothing when empty', () => {
+    expect(WITH({}).text).toBe('');
+  });
+});
+
 describe('comment and quote handling', () => {
   it('skips values inside comments and quoted blocks', () => {
     const v = 'test';
@@ -228,7 +727,9 @@ describe('transactions', () => {
     expect(db.executed).toStrictEqual([
       { text: 'BEGIN', values: [] },
       { text: 'DUMMY1', values: [] },
+      { text: 'SAVEPOINT sp_1', values: [] },
       { text: 'DUMMY2', values: [] },
+      { text: 'RELEASE SAVEPOINT sp_1', values: [] },
       { text: 'DUMMY3', values: [] },
       { text: 'COMMIT', values: [] },
     ]);
@@ -250,10 +751,45 @@ describe('transactions', () => {
     expect(db.executed).toStrictEqual([
       { text: 'BEGIN', values: [] },
       { text: 'DUMMY1', values: [] },
+      { text: 'SAVEPOINT sp_1', values: [] },
       { text: 'DUMMY2', values: [] },
+      { text: 'ROLLBACK TO SAVEPOINT sp_1', values: [] },
       { text: 'ROLLBACK', values: [] },
     ]);
   });
+
+  it('rolls back only the savepoint when the error is caught', async () => {
+    await db.begin(async (conn) => {
+      await conn
+        .begin(async (conn) => {
+          await conn.begin(async (conn) => conn.query('DUMMY1'));
+          throw new Error('ERROR');
+        })
+        .catch(() => undefined);
+      await conn.begin(async (conn) => conn.query('DUMMY2'));
+    });
+
+    expect(db.executed).toStrictEqual([
+      { text: 'BEGIN', values: [] },
+      { text: 'SAVEPOINT sp_1', values: [] },
+      { text: 'SAVEPOINT sp_2', values: [] },
+      { text: 'DUMMY1', values: [] },
+      { text: 'RELEASE SAVEPOINT sp_2', values: [] },
+      { text: 'ROLLBACK TO SAVEPOINT sp_1', values: [] },
+      { text: 'SAVEPOINT sp_3', values: [] },
+      { text: 'DUMMY2', values: [] },
+      { text: 'RELEASE SAVEPOINT sp_3', values: [] },
+      { text: 'COMMIT', values: [] },
+    ]);
+  });
+
+  it('does not make a savepoint without a transaction', async () => {
+    await db.begin({ transaction: false }, async (conn) => {
+      await conn.begin(async (conn) => conn.query('DUMMY1'));
+    });
+
+    expect(db.executed).toStrictEqual([{ text: 'DUMMY1', values: [] }]);
+  });
 });
 
 describe('delete safety', () => {
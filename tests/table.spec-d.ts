@@ -0,0 +1,94 @@
+import { describe, expectTypeOf, it } from 'vitest';
+import {
+  buildDelete,
+  buildInsert,
+  buildUpdate,
+  buildUpsert,
+  defineTable,
+  WHERE,
+  withQueryHelper,
+  type FieldValues,
+  type FieldValuesOf,
+  type QueryResult,
+  type RowOf,
+  type Table,
+} from '../src';
+
+const users = defineTable('users', {
+  id: 'uuid',
+  name: 'text',
+  age: { type: 'int', nullable: true },
+  tags: 'text[]',
+  created_at: 'timestamptz',
+});
+
+const db = withQueryHelper({
+  async query(): Promise<QueryResult<object>> {
+    return { rows: [], rowCount: 0 };
+  },
+});
+
+describe('table types', () => {
+  it('types the rows', () => {
+    expectTypeOf<RowOf<typeof users>>().toEqualTypeOf<{
+      id: string;
+      name: string;
+      age: number | null;
+      tags: string[];
+      created_at: Date;
+    }>();
+    expectTypeOf<FieldValuesOf<Table>>().toEqualTypeOf<FieldValues>();
+  });
+
+  it('accepts a table or a table name', () => {
+    const table = users as typeof users | string;
+    buildInsert(table, { id: 'x' });
+    buildUpdate(table, { name: 'a' }, { id: 'x' });
+    buildDelete(table, { id: 'x' });
+  });
+
+  it('rejects unknown columns', () => {
+    // @ts-expect-error unknown column
+    buildInsert(users, { nmae: 'a' });
+    // @ts-expect-error unknown column
+    buildUpdate(users, { name: 'a' }, { idd: 'x' });
+    // @ts-expect-error unknown conflict key
+    buildUpsert(users, { id: 'x' }, ['idd']);
+    // @ts-expect-error unknown column
+    WHERE(users, { nmae: 'a' });
+    // @ts-expect-error unknown column
+    void db.update(users, { nmae: 'a' }, { id: 'x' });
+    // @ts-expect-error unknown RETURNING column
+    void db.insert(users, { id: 'x' }, { returning: ['nmae'] });
+  });
+
+  it('rejects wrong value types', () => {
+    // @ts-expect-error number for text
+    buildInsert(users, { name: 1 });
+    // @ts-expect-error null for a non-nullable column
+    buildInsert(users, { name: null });
+    // @ts-expect-error string for text[]
+    void db.insert(users, { tags: 'a' });
+    // @ts-expect-error wrong operand type
+    WHERE(users, { age: { gte: '20' } });
+
+    buildInsert(users, { name: 'a', age: null, tags: ['a'], created_at: new Date() });
+    WHERE(users, { age: { gte: 20 } }, { tags: { contains: ['a'] } });
+  });
+
+  it('types the returned rows', async () => {
+    expectTypeOf(await db.insertOne(users, { id: 'x', name: 'a' })).toEqualTypeOf<RowOf<typeof users>>();
+    expectTypeOf(await db.insertOne(users, { id: 'x' }, { returning: ['id', 'age'] })).toEqualTypeOf<{
+      id: string;
+      age: number | null;
+    }>();
+    expectTypeOf((await db.delete(users, { id: 'x' }, { returning: ['name'] })).rows).toEqualTypeOf<
+      { name: string }[]
+    >();
+  });
+
+  it('keeps the untyped tables as they are', () => {
+    buildInsert('users', { anything: 1 });
+    void db.insert('users', { anything: 1 });
+  });
+});
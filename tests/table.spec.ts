@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildDelete,
+  buildInsert,
+  buildUpdate,
+  buildUpsert,
+  defineTable,
+  isTable,
+  WHERE,
+  withQueryHelper,
+  type QueryResult,
+} from '../src';
+
+const users = defineTable('users', {
+  id: 'uuid',
+  name: 'text',
+  age: { type: 'int', nullable: true },
+  tags: 'text[]',
+});
+
+describe('defineTable', () => {
+  it('defines a table', () => {
+    expect(isTable(users)).toBe(true);
+    expect(isTable({ name: 'users', columns: {} })).toBe(false);
+    expect(users.name).toBe('users');
+    expect(Object.isFrozen(users.columns)).toBe(true);
+  });
+
+  it('validates the definition', () => {
+    expect(() => defineTable('', { id: 'uuid' })).toThrowError('defineTable requires a table name.');
+    expect(() => defineTable('t', {})).toThrowError('defineTable requires at least one column.');
+  });
+});
+
+describe('table builders', () => {
+  it('builds queries for the table', () => {
+    expect(buildInsert(users, { id: 'x', name: 'a', age: null }).text).toBe(
+      'INSERT INTO users (id, name, age) VALUES ($1, $2, $3)',
+    );
+    expect(buildUpdate(users, { name: 'b' }, { id: 'x' }).text).toBe('UPDATE users SET name = $1 WHERE ((id = $2))');
+    expect(buildDelete(users, { age: { lt: 20 } }).text).toBe('DELETE FROM users WHERE ((age < $1))');
+    expect(buildUpsert(users, { id: 'x', name: 'a' }, ['id']).text).toBe(
+      'INSERT INTO users (id, name) VALUES ($1, $2) ON CONFLICT (id) DO UPDATE SET name = EXCLUDED.name',
+    );
+    expect(WHERE(users, { tags: { contains: ['a'] } }, { age: null }).text).toBe(
+      'WHERE ((tags @> $1) AND (age IS NULL))',
+    );
+  });
+
+  it('checks the RETURNING columns', () => {
+    expect(buildDelete(users, { id: 'x' }, undefined, { returning: ['id', 'name'] }).text).toBe(
+      'DELETE FROM users WHERE ((id = $1)) RETURNING id, name',
+    );
+    expect(() => buildDelete(users, { id: 'x' }, undefined, { returning: ['nmae'] })).toThrowError(
+      "Unknown column 'nmae' in table 'users'.",
+    );
+  });
+
+  it('throws on unknown columns', () => {
+    const untyped = users as unknown as string;
+    expect(() => buildInsert(untyped, { nmae: 'a' })).toThrowError("Unknown column 'nmae' in table 'users'.");
+    expect(() => buildUpdate(untyped, { nmae: 'a' }, { id: 'x' })).toThrowError(
+      "Unknown column 'nmae' in table 'users'.",
+    );
+    expect(() => buildUpsert(untyped, { id: 'x' }, ['idd'])).toThrowError("Unknown column 'idd' in table 'users'.");
+  });
+
+  it('throws on unknown columns in the conditions', () => {
+    const untyped = users as unknown as string;
+    expect(() => buildUpdate(untyped, { id: 1 }, { nope: 1 })).toThrowError("Unknown column 'nope' in table 'users'.");
+    expect(() => buildDelete(untyped, [{ id: 'x' }, { nope: 1 }])).toThrowError(
+      "Unknown column 'nope' in table 'users'.",
+    );
+    expect(() => buildUpsert(untyped, { id: 'x' }, { keys: ['id'], updateWhere: { nope: 1 } })).toThrowError(
+      "Unknown column 'nope' in table 'users'.",
+    );
+    expect(() => WHERE(users, { nope: 1 } as never)).toThrowError("Unknown column 'nope' in table 'users'.");
+    expect(buildUpdate(untyped, { name: 'b' }, ['id = 1', { age: undefined }]).text).toBe(
+      'UPDATE users SET name = $1 WHERE ((id = 1))',
+    );
+  });
+});
+
+describe('QueryHelper with tables', () => {
+  it('returns typed rows', async () => {
+    const executed: string[] = [];
+    const db = withQueryHelper({
+      async query(cfg: { text: string; values: unknown[] }): Promise<QueryResult<object>> {
+        executed.push(cfg.text);
+        return { rows: [{ id: 'x', name: 'a', age: null, tags: [] }], rowCount: 1 };
+      },
+    });
+
+    const { rows } = await db.insert(users, { id: 'x', name: 'a' }, 'RETURNING *');
+    const name: string = rows[0].name;
+    await db.delete(users, { id: 'x' });
+
+    expect(name).toBe('a');
+    expect(executed).toStrictEqual([
+      'INSERT INTO users (id, name) VALUES ($1, $2) RETURNING *',
+      'DELETE FROM users WHERE ((id = $1))',
+    ]);
+  });
+});
@@ -4,5 +4,11 @@ export default defineConfig({
   test: {
     environment: 'node',
     include: ['tests/**/*.{ts,js}'],
+    exclude: ['tests/**/*.spec-d.ts'],
+    typecheck: {
+      enabled: true,
+      include: ['tests/**/*.spec-d.ts'],
+      tsconfig: 'tests/tsconfig.json',
+    },
   },
 });